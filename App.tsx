@@ -1,47 +1,508 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { LayoutDashboard, Map as MapIcon, Search, Sparkles, AlertCircle, Loader2, Terminal, Menu, X, Radio } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { LayoutDashboard, Map as MapIcon, Search, Sparkles, AlertCircle, AlertTriangle, Loader2, Terminal, Menu, X, Radio, MapPinned, Share2, User, FileUp, Database, Wand2, History, RefreshCw, GitCompare, Bell, Eye, PanelRightOpen } from 'lucide-react';
 import ConflictMap from './components/Map';
 import Analytics from './components/Analytics';
 import LiveCommand from './components/LiveCommand';
-import { analyzeConflicts } from './services/geminiService';
-import { ConflictEvent, AnalysisResult } from './types';
+import ActorNetwork from './components/ActorNetwork';
+import ExportMenu from './components/ExportMenu';
+import PrintBrief from './components/PrintBrief';
+import FilterChips from './components/FilterChips';
+import ImportDialog from './components/ImportDialog';
+import HistoryPanel from './components/HistoryPanel';
+import WatchlistPanel from './components/WatchlistPanel';
+import AlertInbox from './components/AlertInbox';
+import EventDrawer from './components/EventDrawer';
+import ViewFilterPanel from './components/ViewFilterPanel';
+import { WatchDrawMode } from './components/WatchLayer';
+import { geminiDataSource, summarizeEventSet, translateQuery } from './services/geminiService';
+import { acledDataSource, isAcledConfigured } from './services/acledClient';
+import { comparePeriods, formatChange } from './services/timeSeries';
+import { eventsForActor } from './services/actorNetwork';
+import { ConflictDataSource, createLocalDataSource } from './services/dataSource';
+import { EMPTY_FILTER, describeFilter } from './services/filterEngine';
+import { ImportTable, readImportFile } from './services/importer';
+import { diffAnalyses } from './services/analysisDiff';
+import { evaluateRules, loadWatchAlerts, loadWatchRules, notifyAlert, requestNotificationPermission, saveWatchAlerts, saveWatchRules } from './services/watchlist';
+import { parseUrlState, toSearchParams } from './services/urlState';
+import { LatLngBounds, LiveToolActions } from './services/liveTools';
+import { buildAnalysisBriefing } from './services/liveContext';
+import { isSynthetic } from './services/provenance';
+import { EMPTY_VIEW_FILTER, applyViewFilter, showOnlyType, soleVisibleType } from './services/viewFilter';
+import { attachTranscript, deleteAnalysis, findCachedAnalysis, listAnalyses, saveAnalysis, updateAnalysis } from './services/historyStore';
+import { ConflictEvent, AnalysisResult, ConflictFilter, LiveTranscript, MapViewport, RegionSelection, RejectedRecord, ViewTab, SavedAnalysis, ViewFilter, WatchAlert, WatchArea, WatchRule } from './types';
 
 const INITIAL_QUERY = "Recent conflict events in the Sahel region";
 
+// Prefer real ACLED records; fall back to generated data when no credentials are set
+const DEFAULT_SOURCE = isAcledConfigured() ? acledDataSource : geminiDataSource;
+
 const App: React.FC = () => {
-  const [query, setQuery] = useState(INITIAL_QUERY);
+  // A shared link takes precedence over INITIAL_QUERY; read once on load
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [urlState] = useState(() => parseUrlState(searchParams));
+
+  const [query, setQuery] = useState(urlState.query ?? INITIAL_QUERY);
+  const [submittedQuery, setSubmittedQuery] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // True while a streaming source is still delivering events for the current query
+  const [isStreaming, setIsStreaming] = useState(false);
+  // The in-flight search; a newer one aborts it so stale results can't land
+  const searchRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'map' | 'analytics' | 'live'>('map');
+  const [activeTab, setActiveTab] = useState<ViewTab>(urlState.tab ?? 'map');
+  const [viewport, setViewport] = useState<MapViewport | null>(urlState.viewport ?? null);
+  // Bumped when a result finishes loading, so the map fits it once rather than per streamed event
+  const [fitKey, setFitKey] = useState(0);
+  // Bumped when a source load completes, so cached opens and summaries don't re-run the watchlist
+  const [loadKey, setLoadKey] = useState(0);
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  // Event shown in the detail drawer, opened from a map popup or a sidebar card
+  const [detailEventId, setDetailEventId] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   
   const [analysisData, setAnalysisData] = useState<AnalysisResult | null>(null);
+  const [filter, setFilter] = useState<ConflictFilter | null>(null);
+  const [selectedRegion, setSelectedRegion] = useState<RegionSelection | null>(null);
+  const [selectedActor, setSelectedActor] = useState<string | null>(null);
+  // Shared by the map, sidebar list and Analytics; Overwatch's type filter sets it too
+  const [viewFilter, setViewFilter] = useState<ViewFilter>(EMPTY_VIEW_FILTER);
+  const [mapFocus, setMapFocus] = useState<LatLngBounds | null>(null);
+  const [isPrintingBrief, setIsPrintingBrief] = useState(false);
 
-  const handleSearch = useCallback(async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!query.trim()) return;
+  // Imported files replace the default source until the analyst switches back
+  const [dataSource, setDataSource] = useState<ConflictDataSource>(DEFAULT_SOURCE);
+  const [pendingImport, setPendingImport] = useState<ImportTable | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Every completed analysis is saved locally; cachedAt is set when one is shown from the store
+  const [history, setHistory] = useState<SavedAnalysis[]>([]);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+
+  // Watch rules and their alerts live in localStorage; rules are checked on every new result
+  const [watchRules, setWatchRules] = useState<WatchRule[]>(loadWatchRules);
+  const [alerts, setAlerts] = useState<WatchAlert[]>(loadWatchAlerts);
+  const [selectedAlert, setSelectedAlert] = useState<WatchAlert | null>(null);
+  const [drawMode, setDrawMode] = useState<WatchDrawMode | null>(null);
+  const [drawnArea, setDrawnArea] = useState<WatchArea | null>(null);
+
+  // An opened alert, the filter panel or an actor picked in the network narrows the map, sidebar list and Analytics.
+  // Alerts may outlive the result they fired on, so their events are matched by content, not id.
+  const alertEvents = useMemo(() => {
+    const events = analysisData?.events || [];
+    if (!selectedAlert) return events;
+    const keys = new Set(selectedAlert.events.map(e => `${e.date}|${e.type}|${e.location}`));
+    return events.filter(e => keys.has(`${e.date}|${e.type}|${e.location}`));
+  }, [analysisData, selectedAlert]);
+
+  const filteredEvents = useMemo(() => applyViewFilter(alertEvents, viewFilter), [alertEvents, viewFilter]);
+
+  const actorEvents = useMemo(
+    () => selectedActor ? eventsForActor(filteredEvents, selectedActor) : filteredEvents,
+    [filteredEvents, selectedActor]
+  );
+
+  // A region picked on the choropleth further narrows the sidebar list and Analytics
+  const displayedEvents = useMemo(() => {
+    if (!selectedRegion) return actorEvents;
+    const ids = new Set(selectedRegion.eventIds);
+    return actorEvents.filter(e => ids.has(e.id));
+  }, [actorEvents, selectedRegion]);
+
+  // What the analyst currently sees, used for exports
+  const exportResult = useMemo(
+    () => analysisData ? { ...analysisData, events: displayedEvents } : null,
+    [analysisData, displayedEvents]
+  );
+  // Name exports after what was loaded, not whatever is in the search box now; imports have no query
+  const exportQuery = submittedQuery ?? dataSource.label;
+
+  const detailEvent = useMemo(
+    () => analysisData?.events.find(e => e.id === detailEventId) ?? null,
+    [analysisData, detailEventId]
+  );
+  const handleDetailClose = useCallback(() => setDetailEventId(null), []);
+
+  // Overwatch sees the same events as the sidebar
+  const liveBriefing = useMemo(
+    () => buildAnalysisBriefing(submittedQuery, exportResult),
+    [submittedQuery, exportResult]
+  );
+
+  // Baseline comparison: the earlier of the two saved analyses is always "before"
+  const baselineComparison = useMemo(() => {
+    const active = history.find(e => e.id === activeHistoryId);
+    const baseline = history.find(e => e.id === baselineId);
+    if (!active || !baseline || active.id === baseline.id) return null;
+    const [before, after] = baseline.createdAt <= active.createdAt ? [baseline, active] : [active, baseline];
+    return { diff: diffAnalyses(before.result, after.result), beforeLabel: before.name, afterLabel: after.name };
+  }, [history, activeHistoryId, baselineId]);
+
+  const handlePrintDone = useCallback(() => setIsPrintingBrief(false), []);
+
+  // Evidence for the trend badge, computed from the events rather than the model
+  const periodComparison = useMemo(() => comparePeriods(analysisData?.events || []), [analysisData]);
 
+  // History is a convenience; storage failures (e.g. private browsing) must not break analysis
+  const updateHistory = useCallback(async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setHistory(await listAnalyses());
+    } catch (err) {
+      console.error("Error updating analysis history:", err);
+    }
+  }, []);
+
+  const recordAnalysis = useCallback((entryQuery: string, entryFilter: ConflictFilter, result: AnalysisResult, source: ConflictDataSource) =>
+    updateHistory(async () => {
+      const saved = await saveAnalysis({ query: entryQuery, filter: entryFilter, result, source: source.kind, sourceLabel: source.label });
+      setActiveHistoryId(saved.id);
+    }),
+    [updateHistory]
+  );
+
+  const runFilter = useCallback(async (
+    activeFilter: ConflictFilter,
+    source: ConflictDataSource = dataSource,
+    activeQuery = query,
+    signal?: AbortSignal
+  ) => {
+    setFilter(activeFilter);
+    const clearSelections = () => {
+      setSelectedRegion(null);
+      setSelectedActor(null);
+      setSelectedAlert(null);
+      setSelectedEventId(null);
+      setViewFilter(EMPTY_VIEW_FILTER);
+      setDetailEventId(null);
+    };
+    let streamed = false;
+    const result = await source.load({
+      query: activeQuery,
+      filter: activeFilter,
+      signal,
+      onEvents: (events) => {
+        if (signal?.aborted) return;
+        // Plot events as they arrive; the narrative fields follow with the full result
+        if (!streamed) {
+          streamed = true;
+          clearSelections();
+          setIsStreaming(true);
+        }
+        setAnalysisData({ summary: '', trend: 'stable', keyActors: [], events });
+      },
+    });
+    signal?.throwIfAborted();
+    setIsStreaming(false);
+    setAnalysisData(result);
+    setFitKey(key => key + 1);
+    setLoadKey(key => key + 1);
+    clearSelections();
+    setSubmittedQuery(activeQuery);
+    setCachedAt(null);
+    recordAnalysis(activeQuery, activeFilter, result, source);
+    return result;
+  }, [query, dataSource, recordAnalysis]);
+
+  const openAnalysis = useCallback((entry: SavedAnalysis) => {
+    setQuery(entry.query);
+    setFilter(entry.filter);
+    setAnalysisData(entry.result);
+    setFitKey(key => key + 1);
+    setSelectedRegion(null);
+    setSelectedActor(null);
+    setSelectedAlert(null);
+    setSelectedEventId(null);
+    setViewFilter(EMPTY_VIEW_FILTER);
+    setDetailEventId(null);
+    setSubmittedQuery(entry.query);
+    setActiveHistoryId(entry.id);
+    setCachedAt(entry.createdAt);
+    setDataSource(entry.source === 'local' ? createLocalDataSource(entry.result.events, entry.sourceLabel) : DEFAULT_SOURCE);
+  }, []);
+
+  // Cancels whatever search is running and hands out the signal for the next one
+  const beginRequest = useCallback(() => {
+    searchRef.current?.abort();
+    const controller = new AbortController();
+    searchRef.current = controller;
     setIsLoading(true);
     setError(null);
+    return controller;
+  }, []);
+
+  const endRequest = useCallback((controller: AbortController) => {
+    if (searchRef.current !== controller) return;
+    searchRef.current = null;
+    setIsLoading(false);
+    setIsStreaming(false);
+  }, []);
+
+  // For views that replace the map without a request of their own, so a running stream can't overwrite them
+  const cancelRequest = useCallback(() => {
+    searchRef.current?.abort();
+    searchRef.current = null;
+    setIsLoading(false);
+    setIsStreaming(false);
+  }, []);
+
+  const search = useCallback(async (source: ConflictDataSource, refresh = false, searchQuery = query): Promise<AnalysisResult | null> => {
+    if (!searchQuery.trim()) return null;
+
+    const controller = beginRequest();
+    const { signal } = controller;
     
     try {
-      const result = await analyzeConflicts(query);
-      setAnalysisData(result);
+      const cached = refresh ? null : await findCachedAnalysis(searchQuery, source.kind).catch(() => null);
+      signal.throwIfAborted();
+      if (cached) {
+        openAnalysis(cached);
+        return cached.result;
+      }
+      const translated = await translateQuery(searchQuery);
+      signal.throwIfAborted();
+      return await runFilter(translated, source, searchQuery, signal);
     } catch (err) {
+      // Superseded by a newer search, which owns the loading state now
+      if (signal.aborted) return null;
       setError("Failed to analyze conflict data. Please check your API key or try a different query.");
+      return null;
+    } finally {
+      endRequest(controller);
+    }
+  }, [query, runFilter, openAnalysis, beginRequest, endRequest]);
+
+  const handleSearch = useCallback((e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    search(dataSource);
+  }, [search, dataSource]);
+
+  // Bypasses the cache for the current query
+  const handleRefresh = useCallback(() => search(dataSource, true), [search, dataSource]);
+
+  // Re-runs the data source with analyst corrections, skipping translation
+  const handleApplyFilter = useCallback(async (edited: ConflictFilter) => {
+    const controller = beginRequest();
+
+    try {
+      // The edited filter belongs to the last submitted query, not to unsent text in the search box
+      await runFilter(edited, dataSource, submittedQuery ?? query, controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) setError("Failed to load events for the edited filter.");
+    } finally {
+      endRequest(controller);
+    }
+  }, [runFilter, dataSource, submittedQuery, query, beginRequest, endRequest]);
+
+  const openImportFile = useCallback(async (file: File) => {
+    setError(null);
+    try {
+      setPendingImport(await readImportFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not read ${file.name}`);
+    }
+  }, []);
+
+  // Imported events are plotted as-is; Gemini is only involved if a summary is requested
+  const handleImport = useCallback(async (events: ConflictEvent[], rejected: RejectedRecord[]) => {
+    cancelRequest();
+    const source = createLocalDataSource(events, pendingImport?.fileName);
+    setPendingImport(null);
+    setDataSource(source);
+    setFilter(EMPTY_FILTER);
+    const result = await source.load({ query, filter: EMPTY_FILTER, limit: events.length });
+    setAnalysisData({ ...result, rejected });
+    setFitKey(key => key + 1);
+    setLoadKey(key => key + 1);
+    setSelectedRegion(null);
+    setSelectedActor(null);
+    setSelectedEventId(null);
+    setDetailEventId(null);
+    setViewFilter(EMPTY_VIEW_FILTER);
+    setSubmittedQuery(null);
+    setCachedAt(null);
+    recordAnalysis(source.label, EMPTY_FILTER, { ...result, rejected }, source);
+  }, [pendingImport, query, recordAnalysis, cancelRequest]);
+
+  const handleOpenAnalysis = useCallback((entry: SavedAnalysis) => {
+    cancelRequest();
+    openAnalysis(entry);
+  }, [openAnalysis, cancelRequest]);
+
+  const handleResetSource = useCallback(() => {
+    setDataSource(DEFAULT_SOURCE);
+    search(DEFAULT_SOURCE);
+  }, [search]);
+
+  const handleSummarize = useCallback(async () => {
+    if (!analysisData) return;
+    setIsSummarizing(true);
+    setError(null);
+    try {
+      const summarized = { ...analysisData, ...(await summarizeEventSet(analysisData.events, dataSource.label)) };
+      setAnalysisData(summarized);
+      if (activeHistoryId) updateHistory(() => updateAnalysis(activeHistoryId, { result: summarized }));
+    } catch (err) {
+      setError("Failed to summarise the imported events.");
+    } finally {
+      setIsSummarizing(false);
+    }
+  }, [analysisData, dataSource, activeHistoryId, updateHistory]);
+
+  const activeAnalysis = history.find(e => e.id === activeHistoryId) || null;
+
+  const handleAttachTranscript = useCallback((transcript: LiveTranscript) => {
+    if (activeHistoryId) updateHistory(() => attachTranscript(activeHistoryId, transcript));
+  }, [activeHistoryId, updateHistory]);
+
+  const handleRenameAnalysis = useCallback((id: string, name: string) =>
+    updateHistory(() => updateAnalysis(id, { name })), [updateHistory]);
+
+  const handleTogglePin = useCallback((entry: SavedAnalysis) =>
+    updateHistory(() => updateAnalysis(entry.id, { pinned: !entry.pinned })), [updateHistory]);
+
+  const handleDeleteAnalysis = useCallback((id: string) => {
+    if (id === activeHistoryId) setActiveHistoryId(null);
+    if (id === baselineId) setBaselineId(null);
+    updateHistory(() => deleteAnalysis(id));
+  }, [activeHistoryId, baselineId, updateHistory]);
+
+  useEffect(() => saveWatchRules(watchRules), [watchRules]);
+  useEffect(() => saveWatchAlerts(alerts), [alerts]);
+
+  // Check the watchlist once per completed load; streamed batches and cached opens don't count
+  useEffect(() => {
+    if (loadKey === 0 || !analysisData) return;
+    const fresh = evaluateRules(watchRules, analysisData.events, alerts);
+    if (fresh.length === 0) return;
+    fresh.forEach(notifyAlert);
+    setAlerts(current => [...fresh, ...current]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadKey]);
+
+  const unreadAlerts = alerts.filter(a => !a.read).length;
+
+  const handleAddWatchRule = useCallback((rule: WatchRule) => {
+    requestNotificationPermission();
+    setWatchRules(current => [...current, rule]);
+    setDrawnArea(null);
+  }, []);
+
+  const handleSelectAlert = useCallback((alert: WatchAlert | null) => {
+    setSelectedAlert(alert);
+    if (alert) setAlerts(current => current.map(a => a.id === alert.id ? { ...a, read: true } : a));
+  }, []);
+
+  const handleStartDraw = useCallback((mode: WatchDrawMode) => {
+    setDrawMode(mode);
+    setActiveTab('map');
+  }, []);
+
+  const handleDrawComplete = useCallback((area: WatchArea) => {
+    setDrawnArea(area);
+    setDrawMode(null);
+  }, []);
+
+  const handleDrawCancel = useCallback(() => setDrawMode(null), []);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) openImportFile(file);
+  };
+
+  // A linked filter is used as-is rather than re-translated, so the colleague sees the same events
+  const restoreLinkedView = useCallback(async (linkedFilter: ConflictFilter) => {
+    const controller = beginRequest();
+    const { signal } = controller;
+
+    try {
+      const cached = await findCachedAnalysis(query, dataSource.kind).catch(() => null);
+      signal.throwIfAborted();
+      const sameFilter = cached &&
+        toSearchParams({ filter: cached.filter }).toString() === toSearchParams({ filter: linkedFilter }).toString();
+      if (cached && sameFilter) openAnalysis(cached);
+      else await runFilter(linkedFilter, dataSource, query, signal);
+    } catch (err) {
+      if (!signal.aborted) setError("Failed to load the linked view.");
     } finally {
-      setIsLoading(false);
+      endRequest(controller);
     }
-  }, [query]);
+  }, [query, dataSource, openAnalysis, runFilter, beginRequest, endRequest]);
 
-  // Initial load
+  // Initial load: restore a shared link, otherwise INITIAL_QUERY (served from history when run before)
   useEffect(() => {
-    handleSearch();
+    listAnalyses().then(setHistory).catch(err => console.error("Error loading analysis history:", err));
+    const load = urlState.filter ? restoreLinkedView(urlState.filter) : search(dataSource);
+    load.then(() => {
+      if (urlState.eventId) setSelectedEventId(urlState.eventId);
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Mirror the view into the URL so it can be shared; waits for the first result so a
+  // linked URL isn't overwritten before it has been restored
+  useEffect(() => {
+    if (!analysisData) return;
+    setSearchParams(toSearchParams({
+      query: submittedQuery ?? undefined,
+      filter: filter ?? undefined,
+      viewport: viewport ?? undefined,
+      tab: activeTab,
+      eventId: selectedEventId ?? undefined,
+    }), { replace: true });
+  }, [analysisData, submittedQuery, filter, viewport, activeTab, selectedEventId, setSearchParams]);
+
+  // Overwatch drives the display through the same state as the sidebar and tabs
+  const liveToolActions = useMemo((): LiveToolActions => ({
+    searchConflicts: async (toolQuery) => {
+      setQuery(toolQuery);
+      return search(dataSource, false, toolQuery);
+    },
+    flyTo: (bounds) => {
+      setMapFocus(bounds);
+      setActiveTab('map');
+    },
+    filterByType: (type) => setViewFilter(current => showOnlyType(current, type)),
+    getCurrentSummary: () => analysisData ? {
+      query: submittedQuery,
+      filter: filter ? describeFilter(filter) : null,
+      summary: analysisData.summary,
+      trend: analysisData.trend,
+      keyActors: analysisData.keyActors,
+      eventCount: analysisData.events.length,
+      visibleEvents: displayedEvents.length,
+      visibleFatalities: displayedEvents.reduce((acc, e) => acc + e.fatalities, 0),
+      typeFilter: soleVisibleType(viewFilter) ?? (viewFilter.hiddenTypes.length ? `hiding ${viewFilter.hiddenTypes.join(', ')}` : 'all'),
+      activeTab,
+    } : { error: "No analysis loaded" },
+    switchTab: setActiveTab,
+    getEvents: () => analysisData?.events || [],
+  }), [search, dataSource, analysisData, submittedQuery, filter, displayedEvents, viewFilter, activeTab]);
+
+  const handleEventClose = useCallback(
+    (id: string) => setSelectedEventId(current => current === id ? null : current),
+    []
+  );
+
   return (
-    <div className="flex h-screen bg-black text-zinc-100 font-sans overflow-hidden selection:bg-indigo-500/30">
+    <div
+      className="flex h-screen bg-black text-zinc-100 font-sans overflow-hidden selection:bg-indigo-500/30"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (!e.relatedTarget) setIsDraggingFile(false); }}
+      onDrop={handleDrop}
+    >
       
       {/* Mobile Sidebar Overlay */}
       {isSidebarOpen && (
@@ -80,9 +541,30 @@ const App: React.FC = () => {
             
             {/* Query Section */}
             <div className="space-y-3">
-                <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">
-                    Intelligence Query
-                </label>
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                        Intelligence Query
+                    </label>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        title="Import CSV, ACLED export or GeoJSON"
+                        className="flex items-center gap-1.5 px-2 py-1 bg-zinc-900 border border-zinc-800 rounded text-[10px] text-zinc-400 hover:text-white hover:border-zinc-700"
+                    >
+                        <FileUp size={12} />
+                        Import
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".csv,.tsv,.txt,.json,.geojson"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) openImportFile(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
                 <form onSubmit={handleSearch} className="relative">
                     <input 
                         type="text" 
@@ -94,7 +576,6 @@ const App: React.FC = () => {
                     <Search className="absolute left-3 top-3.5 text-zinc-500" size={16} />
                     <button 
                         type="submit"
-                        disabled={isLoading}
                         className="absolute right-2 top-2 p-1.5 bg-zinc-800 hover:bg-indigo-600 rounded-md text-zinc-400 hover:text-white transition-colors disabled:opacity-50"
                     >
                         {isLoading ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
@@ -103,12 +584,125 @@ const App: React.FC = () => {
                 <p className="text-[10px] text-zinc-600">
                     Try: "Civil unrest in France", "Cartel violence in Mexico", "Insurgency in Sahel 2024"
                 </p>
+                {dataSource.kind === 'local' && (
+                    <div className="flex items-center gap-2 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-xs text-zinc-300">
+                        <Database size={14} className="text-indigo-400 shrink-0" />
+                        <span className="truncate">{dataSource.label}</span>
+                        <button
+                            onClick={handleResetSource}
+                            title={`Back to ${DEFAULT_SOURCE.label}`}
+                            className="ml-auto text-zinc-500 hover:text-white"
+                        >
+                            <X size={12} />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* History */}
+            <div className="space-y-2">
+                <label className="flex items-center gap-1.5 text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                    <History size={12} />
+                    History
+                </label>
+                <HistoryPanel
+                    entries={history}
+                    activeId={activeHistoryId}
+                    onOpen={handleOpenAnalysis}
+                    onRename={handleRenameAnalysis}
+                    onTogglePin={handleTogglePin}
+                    onDelete={handleDeleteAnalysis}
+                    baselineId={baselineId}
+                    onCompare={entry => setBaselineId(entry?.id ?? null)}
+                />
+                {baselineComparison && (
+                    <div className="flex items-center gap-2 px-3 py-2 bg-amber-950/30 border border-amber-900/60 rounded-lg text-xs text-amber-200">
+                        <GitCompare size={14} className="text-amber-400 shrink-0" />
+                        <span className="truncate">
+                            {baselineComparison.diff.added.length} new, {baselineComparison.diff.removed.length} gone since {baselineComparison.beforeLabel}
+                        </span>
+                        <button onClick={() => setBaselineId(null)} className="ml-auto text-amber-400/60 hover:text-white">
+                            <X size={12} />
+                        </button>
+                    </div>
+                )}
             </div>
 
+            {/* Alerts */}
+            <div className="space-y-2">
+                <label className="flex items-center gap-1.5 text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                    <Bell size={12} />
+                    Alerts
+                    {unreadAlerts > 0 && (
+                        <span className="px-1.5 rounded-full bg-red-600 text-white text-[10px] normal-case tracking-normal">{unreadAlerts}</span>
+                    )}
+                </label>
+                <AlertInbox
+                    alerts={alerts}
+                    selectedId={selectedAlert?.id ?? null}
+                    onSelect={handleSelectAlert}
+                    onMarkAllRead={() => setAlerts(current => current.map(a => ({ ...a, read: true })))}
+                    onClear={() => { setAlerts([]); setSelectedAlert(null); }}
+                />
+            </div>
+
+            {/* Watchlist */}
+            <div className="space-y-2">
+                <label className="flex items-center gap-1.5 text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                    <Eye size={12} />
+                    Watchlist
+                </label>
+                <WatchlistPanel
+                    rules={watchRules}
+                    onAdd={handleAddWatchRule}
+                    onToggle={id => setWatchRules(current => current.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r))}
+                    onDelete={id => setWatchRules(current => current.filter(r => r.id !== id))}
+                    drawnArea={drawnArea}
+                    drawMode={drawMode}
+                    onStartDraw={handleStartDraw}
+                />
+            </div>
+
+            {/* Interpreted Filter */}
+            {filter && (
+                <div className="space-y-2">
+                    <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                        Interpreted Filter
+                    </label>
+                    <FilterChips filter={filter} onApply={handleApplyFilter} disabled={isLoading} />
+                </div>
+            )}
+
             {/* Analysis Result Section */}
             {analysisData && (
                 <div className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-500">
                     
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                            Assessment
+                        </label>
+                        {exportResult && (
+                            <ExportMenu query={exportQuery} result={exportResult} onPrintBrief={() => setIsPrintingBrief(true)} />
+                        )}
+                    </div>
+
+                    {/* Cache Notice */}
+                    {cachedAt && (
+                        <div className="flex items-center gap-2 text-[10px] text-zinc-500">
+                            <span>Saved {new Date(cachedAt).toLocaleString()}</span>
+                            {dataSource.kind !== 'local' && (
+                                <button
+                                    onClick={handleRefresh}
+                                    disabled={isLoading}
+                                    className="ml-auto flex items-center gap-1 text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                                >
+                                    <RefreshCw size={10} />
+                                    Refresh
+                                </button>
+                            )}
+                        </div>
+                    )}
+
                     {/* Status Card */}
                     <div className="p-4 rounded-lg bg-gradient-to-br from-zinc-900 to-zinc-900 border border-zinc-800">
                         <div className="flex items-center justify-between mb-3">
@@ -120,47 +714,147 @@ const App: React.FC = () => {
                                 ${analysisData.trend === 'stable' ? 'bg-emerald-950/50 border-emerald-900 text-emerald-400' : ''}
                                 ${analysisData.trend === 'de-escalating' ? 'bg-blue-950/50 border-blue-900 text-blue-400' : ''}
                             `}>
-                                {analysisData.trend}
+                                {isStreaming ? 'pending' : analysisData.trend}
                             </span>
                         </div>
+                        {isStreaming && (
+                            <p className="flex items-center gap-2 text-[10px] text-indigo-400 font-mono mb-3">
+                                <Loader2 size={10} className="animate-spin" />
+                                Receiving events… {analysisData.events.length}
+                            </p>
+                        )}
+                        {!isStreaming && periodComparison && (
+                            <p className="text-[10px] text-zinc-500 font-mono mb-3">
+                                Last {periodComparison.days}d vs prior: events {formatChange(periodComparison.eventChange)}, fatalities {formatChange(periodComparison.fatalityChange)}
+                                {periodComparison.trend !== analysisData.trend && (
+                                    <span className="block text-amber-500/80">Data suggests: {periodComparison.trend}</span>
+                                )}
+                            </p>
+                        )}
                         <div className="space-y-2">
-                             <h3 className="text-sm font-medium text-zinc-200">Executive Summary</h3>
+                             <div className="flex items-center justify-between">
+                                <h3 className="text-sm font-medium text-zinc-200">Executive Summary</h3>
+                                {dataSource.kind === 'local' && (
+                                    <button
+                                        onClick={handleSummarize}
+                                        disabled={isSummarizing || analysisData.events.length === 0}
+                                        className="flex items-center gap-1 text-[10px] text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                                    >
+                                        {isSummarizing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                                        Summarise with Gemini
+                                    </button>
+                                )}
+                             </div>
                              <p className="text-xs text-zinc-400 leading-relaxed">
                                 {analysisData.summary}
                              </p>
                         </div>
                     </div>
 
+                    {/* Validation Notice */}
+                    {analysisData.rejected && analysisData.rejected.length > 0 && (
+                        <details className="p-3 bg-amber-950/20 border border-amber-900/50 rounded-lg group">
+                            <summary className="flex items-center gap-2 cursor-pointer list-none text-xs text-amber-300">
+                                <AlertTriangle size={14} className="text-amber-500 shrink-0" />
+                                {analysisData.rejected.length} event{analysisData.rejected.length === 1 ? '' : 's'} discarded
+                                <span className="ml-auto text-[10px] text-amber-600 group-open:hidden">details</span>
+                            </summary>
+                            <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                                {analysisData.rejected.map((r) => (
+                                    <li key={r.index} className="text-[10px] text-amber-200/70 font-mono">
+                                        #{r.index + 1}{r.id ? ` (${r.id})` : ''}: {r.reason}
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+
                     {/* Actors */}
                     <div>
                         <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Key Actors</h4>
                         <div className="flex flex-wrap gap-2">
                             {analysisData.keyActors.map((actor, i) => (
-                                <span key={i} className="px-2 py-1 bg-zinc-900 border border-zinc-800 rounded text-[10px] text-zinc-300">
+                                <button
+                                    key={i}
+                                    onClick={() => setSelectedActor(actor === selectedActor ? null : actor)}
+                                    className={`px-2 py-1 border rounded text-[10px] transition-colors ${
+                                        actor === selectedActor
+                                        ? 'bg-indigo-600 border-indigo-500 text-white'
+                                        : 'bg-zinc-900 border-zinc-800 text-zinc-300 hover:border-zinc-700'
+                                    }`}
+                                >
                                     {actor}
-                                </span>
+                                </button>
                             ))}
                         </div>
                     </div>
 
+                    {/* Actor Selection */}
+                    {selectedActor && (
+                        <div className="flex items-center gap-2 px-3 py-2 bg-indigo-950/40 border border-indigo-900/60 rounded-lg text-xs text-indigo-200">
+                            <User size={14} className="text-indigo-400 shrink-0" />
+                            <span className="truncate">{selectedActor}</span>
+                            <span className="text-[10px] text-indigo-400/70">{actorEvents.length} events</span>
+                            <button onClick={() => setSelectedActor(null)} className="ml-auto text-indigo-400/60 hover:text-white">
+                                <X size={12} />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* View Filters */}
+                    <ViewFilterPanel
+                        events={alertEvents}
+                        filter={viewFilter}
+                        onChange={setViewFilter}
+                        visibleCount={filteredEvents.length}
+                    />
+
+                    {/* Region Selection */}
+                    {selectedRegion && (
+                        <div className="flex items-center gap-2 px-3 py-2 bg-indigo-950/40 border border-indigo-900/60 rounded-lg text-xs text-indigo-200">
+                            <MapPinned size={14} className="text-indigo-400 shrink-0" />
+                            <span className="truncate">{selectedRegion.name}</span>
+                            <span className="text-[10px] text-indigo-400/70">{displayedEvents.length} events</span>
+                            <button onClick={() => setSelectedRegion(null)} className="ml-auto text-indigo-400/60 hover:text-white">
+                                <X size={12} />
+                            </button>
+                        </div>
+                    )}
+
                     {/* Event List (Compact) */}
                      <div>
                         <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Recent Events</h4>
                         <div className="space-y-2 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
-                            {analysisData.events.slice(0, 5).map((event) => (
-                                <div key={event.id} className="p-3 bg-zinc-900/50 rounded border border-zinc-800 hover:border-zinc-700 transition-colors">
+                            {displayedEvents.slice(0, 5).map((event) => (
+                                <div
+                                    key={event.id}
+                                    onClick={() => { setSelectedEventId(event.id); setActiveTab('map'); }}
+                                    className={`p-3 bg-zinc-900/50 rounded border cursor-pointer transition-colors ${
+                                        event.id === selectedEventId ? 'border-indigo-500' : 'border-zinc-800 hover:border-zinc-700'
+                                    }`}
+                                >
                                     <div className="flex justify-between items-start mb-1">
                                         <span className={`text-[10px] font-bold uppercase ${event.type === 'Battle' ? 'text-red-400' : 'text-indigo-400'}`}>
                                             {event.type}
                                         </span>
-                                        <span className="text-[10px] text-zinc-500">{event.date}</span>
+                                        <span className="flex items-center gap-2 text-[10px] text-zinc-500">
+                                            {isSynthetic(event) && <span className="text-amber-500/80 font-mono">SYNTHETIC</span>}
+                                            {event.date}
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); setDetailEventId(event.id); }}
+                                                title="Full details"
+                                                className="text-zinc-500 hover:text-indigo-400"
+                                            >
+                                                <PanelRightOpen size={12} />
+                                            </button>
+                                        </span>
                                     </div>
                                     <p className="text-xs text-zinc-300 line-clamp-2">{event.description}</p>
                                 </div>
                             ))}
-                             {analysisData.events.length > 5 && (
+                             {displayedEvents.length > 5 && (
                                 <p className="text-[10px] text-center text-zinc-500 italic">
-                                    + {analysisData.events.length - 5} more events on map
+                                    + {displayedEvents.length - 5} more events on map
                                 </p>
                             )}
                         </div>
@@ -180,7 +874,7 @@ const App: React.FC = () => {
 
         {/* Footer */}
         <div className="p-4 border-t border-zinc-800 text-[10px] text-zinc-600 text-center">
-            Simulated data powered by Gemini AI
+            {dataSource.attribution}
         </div>
       </aside>
 
@@ -219,6 +913,17 @@ const App: React.FC = () => {
                     <LayoutDashboard size={14} />
                     Analytics
                 </button>
+                <button
+                    onClick={() => setActiveTab('network')}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-md text-xs font-medium transition-all ${
+                        activeTab === 'network' 
+                        ? 'bg-indigo-600 text-white shadow-md' 
+                        : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'
+                    }`}
+                >
+                    <Share2 size={14} />
+                    Network
+                </button>
                 <button
                     onClick={() => setActiveTab('live')}
                     className={`flex items-center gap-2 px-4 py-2 rounded-md text-xs font-medium transition-all ${
@@ -237,7 +942,24 @@ const App: React.FC = () => {
         <div className="flex-1 w-full h-full relative">
             {activeTab === 'map' && (
                 <div className="w-full h-full animate-in fade-in duration-500">
-                     <ConflictMap events={analysisData?.events || []} />
+                     <ConflictMap
+                        events={actorEvents}
+                        selectedRegion={selectedRegion}
+                        onRegionSelect={setSelectedRegion}
+                        diff={baselineComparison?.diff}
+                        watchRules={watchRules}
+                        drawMode={drawMode}
+                        onDrawComplete={handleDrawComplete}
+                        onDrawCancel={handleDrawCancel}
+                        initialViewport={viewport}
+                        fitKey={fitKey}
+                        onViewportChange={setViewport}
+                        selectedEventId={selectedEventId}
+                        onEventSelect={setSelectedEventId}
+                        onEventClose={handleEventClose}
+                        onEventDetails={setDetailEventId}
+                        focusBounds={mapFocus}
+                     />
                 </div>
             )}
             
@@ -246,21 +968,71 @@ const App: React.FC = () => {
                      <div className="max-w-5xl mx-auto">
                         <div className="mb-8">
                             <h2 className="text-2xl font-bold text-white mb-2">Conflict Analytics</h2>
-                            <p className="text-zinc-400 text-sm">Visual breakdown of event types, lethality, and distribution for current query.</p>
+                            <p className="text-zinc-400 text-sm">Visual breakdown of event types, lethality, and distribution {selectedRegion ? `in ${selectedRegion.name}` : 'for current query'}.</p>
                         </div>
-                        <Analytics events={analysisData?.events || []} />
+                        <Analytics events={displayedEvents} baseline={baselineComparison} />
                      </div>
                 </div>
             )}
 
-             {activeTab === 'live' && (
-                <div className="w-full h-full animate-in fade-in zoom-in-95 duration-500 pt-20">
-                    <LiveCommand />
+            {activeTab === 'network' && (
+                <div className="w-full h-full bg-zinc-950 p-4 lg:p-8 pt-20 overflow-y-auto animate-in fade-in slide-in-from-bottom-4 duration-500">
+                     <div className="max-w-5xl mx-auto">
+                        <div className="mb-8">
+                            <h2 className="text-2xl font-bold text-white mb-2">Actor Network</h2>
+                            <p className="text-zinc-400 text-sm">Actors linked by shared events, coloured by the dominant event type. Click an actor to filter the map and event list.</p>
+                        </div>
+                        <ActorNetwork
+                            events={analysisData?.events || []}
+                            selectedActor={selectedActor}
+                            onSelectActor={setSelectedActor}
+                        />
+                     </div>
                 </div>
             )}
+
+            {/* Kept mounted so the voice link survives Overwatch switching tabs */}
+            <div className={activeTab === 'live' ? 'w-full h-full animate-in fade-in zoom-in-95 duration-500 pt-20' : 'hidden'}>
+                <LiveCommand
+                  toolActions={liveToolActions}
+                  briefing={isStreaming ? undefined : liveBriefing}
+                  query={submittedQuery}
+                  analysisName={activeAnalysis?.name}
+                  attachedTranscripts={activeAnalysis?.transcripts}
+                  onAttachTranscript={handleAttachTranscript}
+                  isVisible={activeTab === 'live'}
+                />
+            </div>
         </div>
 
+        {detailEvent && <EventDrawer event={detailEvent} onClose={handleDetailClose} />}
       </main>
+
+      {isDraggingFile && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-950/60 border-4 border-dashed border-indigo-500 pointer-events-none">
+            <div className="flex flex-col items-center gap-2 text-indigo-100">
+                <FileUp size={32} />
+                <p className="text-sm font-medium">Drop a CSV, ACLED export or GeoJSON file to plot it</p>
+            </div>
+        </div>
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+            table={pendingImport}
+            onImport={handleImport}
+            onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {isPrintingBrief && exportResult && (
+        <PrintBrief
+            query={exportQuery}
+            result={exportResult}
+            attribution={dataSource.attribution}
+            onDone={handlePrintDone}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ConflictEvent, ConflictType } from '../types';
+import { buildActorNetwork } from '../services/actorNetwork';
+import { LayoutNode, initialLayout, stepLayout } from '../services/forceLayout';
+import { TYPE_COLORS } from '../constants';
+
+interface ActorNetworkProps {
+  events: ConflictEvent[];
+  selectedActor: string | null;
+  onSelectActor: (actor: string | null) => void;
+}
+
+const WIDTH = 900;
+const HEIGHT = 600;
+const MAX_TICKS = 300;
+
+const ActorNetwork: React.FC<ActorNetworkProps> = ({ events, selectedActor, onSelectActor }) => {
+  const network = useMemo(() => buildActorNetwork(events), [events]);
+  const links = useMemo(
+    () => network.edges.map(e => ({ source: e.source, target: e.target, weight: e.events + e.fatalities / 10 })),
+    [network]
+  );
+
+  const nodesRef = useRef<LayoutNode[]>([]);
+  const tickRef = useRef(0);
+  const frameRef = useRef<number>(0);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+  const [, setFrame] = useState(0);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const runSimulation = () => {
+    cancelAnimationFrame(frameRef.current);
+    const tick = () => {
+      const alpha = 1 - tickRef.current / MAX_TICKS;
+      if (alpha <= 0) return;
+      stepLayout(nodesRef.current, links, { width: WIDTH, height: HEIGHT }, alpha);
+      tickRef.current++;
+      setFrame(f => f + 1);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  };
+
+  // Restart the layout whenever the graph changes
+  useEffect(() => {
+    nodesRef.current = initialLayout(network.nodes.map(n => n.id), { width: WIDTH, height: HEIGHT });
+    tickRef.current = 0;
+    runSimulation();
+    return () => cancelAnimationFrame(frameRef.current);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [network, links]);
+
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * WIDTH, y: ((e.clientY - rect.top) / rect.height) * HEIGHT };
+  };
+
+  const handlePointerDown = (id: string) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { id, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const node = nodesRef.current.find(n => n.id === drag.id);
+    if (!node) return;
+    const { x, y } = toSvgPoint(e);
+    node.x = x;
+    node.y = y;
+    node.pinned = true;
+    drag.moved = true;
+    // Let neighbours settle around the dragged node
+    tickRef.current = Math.min(tickRef.current, MAX_TICKS * 0.7);
+    runSimulation();
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) {
+      onSelectActor(drag.id === selectedActor ? null : drag.id);
+    }
+  };
+
+  const positions = new Map<string, LayoutNode>(nodesRef.current.map(n => [n.id, n]));
+  const maxEvents = network.nodes.reduce((max, n) => Math.max(max, n.events), 1);
+  const maxEdge = network.edges.reduce((max, e) => Math.max(max, e.events), 1);
+  const focus = hovered || selectedActor;
+  const neighbours = useMemo(() => {
+    const set = new Set<string>();
+    if (!focus) return set;
+    network.edges.forEach(e => {
+      if (e.source === focus) set.add(e.target);
+      if (e.target === focus) set.add(e.source);
+    });
+    return set;
+  }, [network, focus]);
+
+  if (network.nodes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-zinc-500 border-2 border-dashed border-zinc-800 rounded-xl">
+        <p>No actors to visualize</p>
+      </div>
+    );
+  }
+
+  const presentTypes = Object.values(ConflictType).filter(t => network.edges.some(e => e.dominantType === t));
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl border border-zinc-800 overflow-hidden">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onClick={() => !dragRef.current && selectedActor && onSelectActor(null)}
+      >
+        {network.edges.map(edge => {
+          const a = positions.get(edge.source);
+          const b = positions.get(edge.target);
+          if (!a || !b) return null;
+          const isFocused = !focus || edge.source === focus || edge.target === focus;
+          return (
+            <line
+              key={`${edge.source}|${edge.target}`}
+              x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+              stroke={TYPE_COLORS[edge.dominantType]}
+              strokeWidth={1 + (edge.events / maxEdge) * 6}
+              strokeOpacity={isFocused ? 0.8 : 0.1}
+            >
+              <title>{`${edge.source} — ${edge.target}\n${edge.events} shared events, ${edge.fatalities} fatalities\nMostly ${edge.dominantType}`}</title>
+            </line>
+          );
+        })}
+
+        {network.nodes.map(node => {
+          const p = positions.get(node.id);
+          if (!p) return null;
+          const radius = 6 + Math.sqrt(node.events / maxEvents) * 18;
+          const isSelected = node.id === selectedActor;
+          const isDimmed = focus !== null && node.id !== focus && !neighbours.has(node.id);
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${p.x}, ${p.y})`}
+              className="cursor-pointer"
+              opacity={isDimmed ? 0.25 : 1}
+              onPointerDown={handlePointerDown(node.id)}
+              onPointerEnter={() => setHovered(node.id)}
+              onPointerLeave={() => setHovered(null)}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <circle
+                r={radius}
+                fill={isSelected ? '#4f46e5' : '#27272a'}
+                stroke={isSelected ? '#a5b4fc' : '#71717a'}
+                strokeWidth={isSelected ? 3 : 1.5}
+              />
+              <text
+                y={radius + 12}
+                textAnchor="middle"
+                className="fill-zinc-300 pointer-events-none"
+                fontSize={11}
+              >
+                {node.id.length > 28 ? `${node.id.slice(0, 27)}…` : node.id}
+              </text>
+              <title>{`${node.id}\n${node.events} events, ${node.fatalities} fatalities`}</title>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 px-4 py-3 border-t border-zinc-800 text-[10px] text-zinc-400">
+        {presentTypes.map(type => (
+          <span key={type} className="flex items-center gap-1.5">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: TYPE_COLORS[type] }} />
+            {type}
+          </span>
+        ))}
+        <span className="ml-auto text-zinc-600">Node size: events involved · Edge width: shared events · Drag to rearrange</span>
+      </div>
+    </div>
+  );
+};
+
+export default ActorNetwork;
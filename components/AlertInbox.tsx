@@ -0,0 +1,69 @@
+import React from 'react';
+import { Check, Trash2 } from 'lucide-react';
+import { WatchAlert } from '../types';
+import { TYPE_COLORS } from '../constants';
+
+interface AlertInboxProps {
+  alerts: WatchAlert[];
+  selectedId: string | null;
+  onSelect: (alert: WatchAlert | null) => void;
+  onMarkAllRead: () => void;
+  onClear: () => void;
+}
+
+const AlertInbox: React.FC<AlertInboxProps> = ({ alerts, selectedId, onSelect, onMarkAllRead, onClear }) => {
+  if (alerts.length === 0) {
+    return <p className="text-[10px] text-zinc-600 italic">No alerts triggered.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end gap-3 text-[10px]">
+        <button onClick={onMarkAllRead} className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300">
+          <Check size={10} /> Mark all read
+        </button>
+        <button onClick={onClear} className="flex items-center gap-1 text-zinc-500 hover:text-red-400">
+          <Trash2 size={10} /> Clear
+        </button>
+      </div>
+      <ul className="space-y-1 max-h-60 overflow-y-auto pr-1 custom-scrollbar">
+        {alerts.map(alert => {
+          const isSelected = alert.id === selectedId;
+          return (
+            <li key={alert.id}>
+              <button
+                onClick={() => onSelect(isSelected ? null : alert)}
+                className={`w-full text-left p-2 rounded border transition-colors ${
+                  isSelected ? 'bg-red-950/40 border-red-900/60' : 'bg-zinc-900/50 border-zinc-800 hover:border-zinc-700'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  {!alert.read && <span className="w-1.5 h-1.5 rounded-full bg-red-500 shrink-0" />}
+                  <span className="text-xs font-medium text-zinc-200 truncate">{alert.ruleName}</span>
+                  <span className="ml-auto text-[10px] text-zinc-600 shrink-0">
+                    {new Date(alert.triggeredAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+                <p className="text-[10px] text-zinc-400 mt-0.5">{alert.message}</p>
+                {isSelected && (
+                  <ul className="mt-2 space-y-0.5">
+                    {alert.events.map(e => (
+                      <li key={e.id} className="flex items-center gap-1.5 text-[10px] text-zinc-400 font-mono">
+                        <span className="inline-block w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: TYPE_COLORS[e.type] }} />
+                        <span>{e.date}</span>
+                        <span className="truncate">{e.location}</span>
+                        <span className="ml-auto text-red-400">{e.fatalities}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AlertInbox;
@@ -1,23 +1,28 @@
 import React, { useMemo } from 'react';
 import { 
-  BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie 
+  BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie,
+  AreaChart, Area, LineChart, Line, CartesianGrid, Legend
 } from 'recharts';
 import { ConflictEvent, ConflictType } from '../types';
+import { comparePeriods, fatalitySeries, formatChange, weeklyEventsByType } from '../services/timeSeries';
+import { formatDay } from '../services/dates';
+import { TYPE_COLORS as COLORS } from '../constants';
+import { AnalysisDiff } from '../services/analysisDiff';
+import DiffPanel from './DiffPanel';
 
 interface AnalyticsProps {
   events: ConflictEvent[];
+  /** Baseline comparison shown beside the KPIs */
+  baseline?: { diff: AnalysisDiff; beforeLabel: string; afterLabel: string } | null;
 }
 
-const COLORS = {
-    [ConflictType.BATTLE]: '#dc2626',
-    [ConflictType.PROTEST]: '#3b82f6',
-    [ConflictType.RIOT]: '#f97316',
-    [ConflictType.EXPLOSION]: '#b91c1c',
-    [ConflictType.VIOLENCE_AGAINST_CIVILIANS]: '#7f1d1d',
-    [ConflictType.STRATEGIC_DEVELOPMENT]: '#10b981',
-};
+const TOOLTIP_STYLE = { backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff' };
+
+// Red for growth in violence, green for decline
+const changeColor = (value: number | null) =>
+  value === null || value === 0 ? 'text-zinc-400' : value > 0 ? 'text-red-400' : 'text-emerald-400';
 
-const Analytics: React.FC<AnalyticsProps> = ({ events }) => {
+const Analytics: React.FC<AnalyticsProps> = ({ events, baseline }) => {
   
   const typeStats = useMemo(() => {
     const stats: Record<string, number> = {};
@@ -40,6 +45,16 @@ const Analytics: React.FC<AnalyticsProps> = ({ events }) => {
   const totalFatalities = useMemo(() => events.reduce((acc, curr) => acc + curr.fatalities, 0), [events]);
   const avgFatalities = useMemo(() => events.length ? (totalFatalities / events.length).toFixed(1) : 0, [events, totalFatalities]);
 
+  const weeklyTypes = useMemo(() => weeklyEventsByType(events), [events]);
+  const fatalityTrend = useMemo(() => fatalitySeries(events), [events]);
+  const comparison = useMemo(() => comparePeriods(events), [events]);
+
+  // Only stack the types that actually occur
+  const presentTypes = useMemo(
+    () => Object.values(ConflictType).filter(type => events.some(e => e.type === type)),
+    [events]
+  );
+
   if (events.length === 0) {
     return (
         <div className="flex flex-col items-center justify-center h-64 text-zinc-500 border-2 border-dashed border-zinc-800 rounded-xl">
@@ -66,6 +81,41 @@ const Analytics: React.FC<AnalyticsProps> = ({ events }) => {
         </div>
       </div>
 
+      {/* Baseline Delta */}
+      {baseline && <DiffPanel {...baseline} />}
+
+      {/* Period over Period */}
+      {comparison && (
+        <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-zinc-300 font-medium text-sm">Period over Period</h3>
+            <span className="text-[10px] text-zinc-500 font-mono">
+              {formatDay(comparison.previous.start)}–{formatDay(comparison.previous.end)} vs {formatDay(comparison.current.start)}–{formatDay(comparison.current.end)}
+            </span>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-zinc-500 text-[10px] uppercase tracking-wider">Events ({comparison.days}d)</p>
+              <p className="text-lg font-bold text-white">
+                {comparison.previous.events} → {comparison.current.events}
+                <span className={`ml-2 text-xs font-mono ${changeColor(comparison.eventChange)}`}>{formatChange(comparison.eventChange)}</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-zinc-500 text-[10px] uppercase tracking-wider">Fatalities ({comparison.days}d)</p>
+              <p className="text-lg font-bold text-white">
+                {comparison.previous.fatalities} → {comparison.current.fatalities}
+                <span className={`ml-2 text-xs font-mono ${changeColor(comparison.fatalityChange)}`}>{formatChange(comparison.fatalityChange)}</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-zinc-500 text-[10px] uppercase tracking-wider">Data-derived trend</p>
+              <p className="text-lg font-bold text-zinc-300 capitalize">{comparison.trend}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Charts Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Event Types */}
@@ -121,6 +171,47 @@ const Analytics: React.FC<AnalyticsProps> = ({ events }) => {
           </ResponsiveContainer>
         </div>
       </div>
+
+      {/* Weekly Events by Type */}
+      <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 h-80">
+        <h3 className="text-zinc-300 font-medium text-sm mb-4">Weekly Events by Type</h3>
+        <ResponsiveContainer width="100%" height="90%">
+          <AreaChart data={weeklyTypes} margin={{ left: -20, right: 10 }}>
+            <CartesianGrid stroke="#27272a" strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" stroke="#52525b" fontSize={10} tickLine={false} />
+            <YAxis stroke="#52525b" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            {presentTypes.map(type => (
+              <Area
+                key={type}
+                type="monotone"
+                dataKey={type}
+                stackId="types"
+                stroke={COLORS[type]}
+                fill={COLORS[type]}
+                fillOpacity={0.6}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Fatalities over Time */}
+      <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 h-72">
+        <h3 className="text-zinc-300 font-medium text-sm mb-4">Fatalities over Time</h3>
+        <ResponsiveContainer width="100%" height="90%">
+          <LineChart data={fatalityTrend} margin={{ left: -20, right: 10 }}>
+            <CartesianGrid stroke="#27272a" strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" stroke="#52525b" fontSize={10} tickLine={false} />
+            <YAxis stroke="#52525b" fontSize={10} tickLine={false} axisLine={false} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            <Line type="monotone" dataKey="fatalities" name="Fatalities" stroke="#7f1d1d" strokeWidth={1} dot={false} />
+            <Line type="monotone" dataKey="rollingAverage" name="Rolling average" stroke="#ef4444" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,141 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { GeoJSON } from 'react-leaflet';
+import L from 'leaflet';
+import { BoundaryLevel, ConflictEvent, RegionSelection } from '../types';
+import { BoundaryCollection, BoundaryFeature, RegionStats, binEvents, featureKey, loadBoundaries } from '../services/boundaries';
+
+export type ChoroplethMetric = 'events' | 'fatalities' | 'perMillion';
+
+export const METRIC_LABELS: Record<ChoroplethMetric, string> = {
+  events: 'Events',
+  fatalities: 'Fatalities',
+  perMillion: 'Events / 1M people',
+};
+
+interface ChoroplethLayerProps {
+  events: ConflictEvent[];
+  level: BoundaryLevel;
+  metric: ChoroplethMetric;
+  selectedKey?: string | null;
+  onSelect?: (region: RegionSelection | null) => void;
+}
+
+// Light to dark red, one colour per class
+const CLASS_COLORS = ['#fecaca', '#f87171', '#dc2626', '#991b1b', '#450a0a'];
+
+const metricValue = (region: RegionStats | undefined, metric: ChoroplethMetric): number | null => {
+  if (!region) return null;
+  if (metric === 'events') return region.count;
+  if (metric === 'fatalities') return region.fatalities;
+  return region.perMillion;
+};
+
+// Log scale so one hotspot doesn't wash out every other region
+const classify = (value: number, max: number) =>
+  max <= 0 ? 0 : Math.min(CLASS_COLORS.length - 1, Math.floor((Math.log1p(value) / Math.log1p(max)) * CLASS_COLORS.length));
+
+// Leaflet hands back the features it was given, typed as plain GeoJSON
+type LeafletFeature = GeoJSON.Feature<GeoJSON.Geometry, BoundaryFeature['properties']>;
+
+const formatValue = (value: number) => value >= 100 ? Math.round(value).toString() : value.toFixed(value >= 10 ? 1 : 2);
+
+const ChoroplethLayer: React.FC<ChoroplethLayerProps> = ({ events, level, metric, selectedKey, onSelect }) => {
+  const [collection, setCollection] = useState<BoundaryCollection | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCollection(null);
+    setLoadError(null);
+    loadBoundaries(level)
+      .then(data => { if (!cancelled) setCollection(data); })
+      .catch(err => { if (!cancelled) setLoadError(err.message); });
+    return () => { cancelled = true; };
+  }, [level]);
+
+  const stats = useMemo(
+    () => collection ? binEvents(events, collection) : new Map<string, RegionStats>(),
+    [events, collection]
+  );
+
+  const keyed = useMemo(() => {
+    const lookup = new Map<BoundaryFeature, string>();
+    collection?.features.forEach((f, i) => lookup.set(f, featureKey(f, i)));
+    return lookup;
+  }, [collection]);
+
+  const max = useMemo(() => {
+    let result = 0;
+    stats.forEach(region => { result = Math.max(result, metricValue(region, metric) ?? 0); });
+    return result;
+  }, [stats, metric]);
+
+  const style = useCallback<L.StyleFunction<BoundaryFeature['properties']>>((feature) => {
+    const key = feature ? keyed.get(feature as BoundaryFeature) : undefined;
+    const value = metricValue(key ? stats.get(key) : undefined, metric);
+    const isSelected = key !== undefined && key === selectedKey;
+    return {
+      color: isSelected ? '#818cf8' : '#52525b',
+      weight: isSelected ? 2.5 : 0.6,
+      fillColor: value === null || value === 0 ? '#18181b' : CLASS_COLORS[classify(value, max)],
+      fillOpacity: value === null || value === 0 ? 0.1 : 0.65,
+    };
+  }, [keyed, stats, metric, max, selectedKey]);
+
+  // onEachFeature is bound once per layer, so route clicks through a ref
+  const handlersRef = useRef({ keyed, stats, onSelect, selectedKey, level });
+  handlersRef.current = { keyed, stats, onSelect, selectedKey, level };
+
+  const onEachFeature = useCallback((feature: LeafletFeature, layer: L.Layer) => {
+    layer.on('click', () => {
+      const { keyed, stats, onSelect, selectedKey, level } = handlersRef.current;
+      const key = keyed.get(feature as BoundaryFeature);
+      if (!key || !onSelect) return;
+      if (key === selectedKey) {
+        onSelect(null);
+        return;
+      }
+      onSelect({ level, key, name: feature.properties.name, eventIds: stats.get(key)?.eventIds || [] });
+    });
+    layer.on('mouseover', () => {
+      const region = handlersRef.current.stats.get(handlersRef.current.keyed.get(feature as BoundaryFeature) || '');
+      layer.bindTooltip(
+        `<strong>${feature.properties.name}</strong><br/>${region ? `${region.count} events · ${region.fatalities} fatalities` : 'No events'}`,
+        { sticky: true }
+      ).openTooltip();
+    });
+  }, []);
+
+  const thresholds = CLASS_COLORS.map((_, i) => Math.expm1((i / CLASS_COLORS.length) * Math.log1p(max)));
+
+  return (
+    <>
+      {collection && (
+        <GeoJSON key={level} data={collection} style={style} onEachFeature={onEachFeature} />
+      )}
+
+      {/* Legend, placed with Leaflet's own control classes */}
+      <div className="leaflet-bottom leaflet-left">
+        <div className="leaflet-control bg-zinc-900/90 backdrop-blur border border-zinc-800 rounded-lg p-2 text-[10px] text-zinc-400 shadow-xl">
+          {loadError ? (
+            <span className="text-amber-400">{loadError}</span>
+          ) : !collection ? (
+            <span>Loading boundaries…</span>
+          ) : (
+            <>
+              <div className="font-semibold text-zinc-300 mb-1">{METRIC_LABELS[metric]}</div>
+              {max > 0 ? CLASS_COLORS.map((color, i) => (
+                <div key={color} className="flex items-center gap-1.5">
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />
+                  <span className="font-mono">≥ {formatValue(thresholds[i])}</span>
+                </div>
+              )) : <span>No data for this metric</span>}
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ChoroplethLayer;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { CircleMarker, Tooltip } from 'react-leaflet';
+import { ConflictEvent } from '../types';
+import { AnalysisDiff } from '../services/analysisDiff';
+
+interface DiffLayerProps {
+  diff: AnalysisDiff;
+}
+
+type DiffStatus = 'added' | 'removed' | 'retained';
+
+export const DIFF_STYLES: Record<DiffStatus, { color: string; label: string }> = {
+  added: { color: '#10b981', label: 'New' },       // emerald-500
+  removed: { color: '#ef4444', label: 'No longer reported' }, // red-500
+  retained: { color: '#71717a', label: 'In both' }, // zinc-500
+};
+
+const DiffMarker: React.FC<{ event: ConflictEvent; status: DiffStatus }> = ({ event, status }) => {
+  const { color, label } = DIFF_STYLES[status];
+  return (
+    <CircleMarker
+      center={[event.latitude, event.longitude]}
+      radius={5 + Math.min(10, Math.sqrt(event.fatalities) * 1.5)}
+      pathOptions={{
+        color,
+        weight: status === 'retained' ? 1 : 2,
+        fillColor: color,
+        fillOpacity: status === 'removed' ? 0.1 : 0.45,
+        dashArray: status === 'removed' ? '4 3' : undefined,
+      }}
+    >
+      <Tooltip direction="top">
+        <div className="text-[10px]">
+          <span className="font-bold" style={{ color }}>{label}</span> · {event.type}<br />
+          {event.location}, {event.date} · {event.fatalities} fatalities
+        </div>
+      </Tooltip>
+    </CircleMarker>
+  );
+};
+
+/**
+ * Overlays two analyses on one map: new events filled green, events missing
+ * from the later analysis dashed red, and events present in both in grey.
+ */
+const DiffLayer: React.FC<DiffLayerProps> = ({ diff }) => (
+  <>
+    {diff.retained.map((e, i) => <DiffMarker key={`r-${e.id}-${i}`} event={e} status="retained" />)}
+    {diff.removed.map((e, i) => <DiffMarker key={`d-${e.id}-${i}`} event={e} status="removed" />)}
+    {diff.added.map((e, i) => <DiffMarker key={`a-${e.id}-${i}`} event={e} status="added" />)}
+  </>
+);
+
+export default DiffLayer;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { AnalysisDiff } from '../services/analysisDiff';
+import { TYPE_COLORS } from '../constants';
+
+interface DiffPanelProps {
+  diff: AnalysisDiff;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+// Red for growth in violence, green for decline
+const deltaColor = (value: number) =>
+  value === 0 ? 'text-zinc-400' : value > 0 ? 'text-red-400' : 'text-emerald-400';
+
+const DiffPanel: React.FC<DiffPanelProps> = ({ diff, beforeLabel, afterLabel }) => (
+  <div className="bg-zinc-900/50 p-4 rounded-xl border border-amber-900/50 space-y-4">
+    <div className="flex items-center justify-between gap-3">
+      <h3 className="text-zinc-300 font-medium text-sm">Change since baseline</h3>
+      <span className="flex items-center gap-1 text-[10px] text-zinc-500 font-mono truncate">
+        <span className="truncate">{beforeLabel}</span>
+        <ArrowRight size={10} className="shrink-0" />
+        <span className="truncate">{afterLabel}</span>
+      </span>
+    </div>
+
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      <div>
+        <p className="text-zinc-500 text-[10px] uppercase tracking-wider">Events</p>
+        <p className={`text-lg font-bold font-mono ${deltaColor(diff.eventChange)}`}>{signed(diff.eventChange)}</p>
+        <p className="text-[10px] text-zinc-500">
+          <span className="text-emerald-400">{diff.added.length} new</span> · <span className="text-red-400">{diff.removed.length} gone</span>
+        </p>
+      </div>
+      <div>
+        <p className="text-zinc-500 text-[10px] uppercase tracking-wider">Fatalities</p>
+        <p className={`text-lg font-bold font-mono ${deltaColor(diff.fatalityChange)}`}>{signed(diff.fatalityChange)}</p>
+      </div>
+      <div className="col-span-2">
+        <p className="text-zinc-500 text-[10px] uppercase tracking-wider">Trend</p>
+        <p className="text-lg font-bold text-zinc-300 capitalize">
+          {diff.trend.from === diff.trend.to ? `${diff.trend.to} (unchanged)` : `${diff.trend.from} → ${diff.trend.to}`}
+        </p>
+      </div>
+    </div>
+
+    {diff.fatalitiesByType.length > 0 && (
+      <div>
+        <h4 className="text-zinc-500 text-[10px] uppercase tracking-wider mb-2">Fatalities by type</h4>
+        <ul className="space-y-1">
+          {diff.fatalitiesByType.map(d => (
+            <li key={d.type} className="flex items-center gap-2 text-xs">
+              <span className="inline-block w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: TYPE_COLORS[d.type] }} />
+              <span className="text-zinc-400 truncate">{d.type}</span>
+              <span className="ml-auto font-mono text-zinc-500">{d.before} → {d.after}</span>
+              <span className={`w-12 text-right font-mono ${deltaColor(d.change)}`}>{signed(d.change)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    {(diff.actorsAppeared.length > 0 || diff.actorsDropped.length > 0) && (
+      <div className="flex flex-wrap gap-2">
+        {diff.actorsAppeared.map(actor => (
+          <span key={`+${actor}`} className="px-2 py-1 bg-emerald-950/40 border border-emerald-900/60 rounded text-[10px] text-emerald-300">
+            + {actor}
+          </span>
+        ))}
+        {diff.actorsDropped.map(actor => (
+          <span key={`-${actor}`} className="px-2 py-1 bg-zinc-900 border border-zinc-800 rounded text-[10px] text-zinc-500 line-through">
+            {actor}
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default DiffPanel;
@@ -0,0 +1,119 @@
+import React, { useEffect } from 'react';
+import { AlertTriangle, ExternalLink, X } from 'lucide-react';
+import { ConflictEvent } from '../types';
+import { TYPE_COLORS } from '../constants';
+import { GEO_PRECISION_LABELS, ORIGIN_LABELS, isSynthetic } from '../services/provenance';
+
+interface EventDrawerProps {
+  event: ConflictEvent;
+  onClose: () => void;
+}
+
+const Field: React.FC<{ label: string; value?: React.ReactNode; mono?: boolean }> = ({ label, value, mono }) => (
+  <div>
+    <dt className="text-[10px] text-zinc-500 uppercase tracking-wider">{label}</dt>
+    <dd className={`text-xs text-zinc-200 break-words ${mono ? 'font-mono' : ''}`}>{value ?? <span className="text-zinc-600">—</span>}</dd>
+  </div>
+);
+
+/**
+ * Every field of one event, with where it came from and how much to trust it.
+ */
+const EventDrawer: React.FC<EventDrawerProps> = ({ event, onClose }) => {
+  const provenance = event.provenance;
+  // ACLED records have no public page and the API needs credentials, so only the id is shown for them
+  const rawUrl = provenance?.rawUrl;
+  const confidence = provenance ? Math.round(provenance.confidence * 100) : null;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <aside className="absolute top-0 right-0 z-[1100] h-full w-full max-w-sm bg-zinc-950/95 backdrop-blur border-l border-zinc-800 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex items-start gap-3 p-4 border-b border-zinc-800">
+        <span className="mt-1 w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: TYPE_COLORS[event.type] }} />
+        <div className="min-w-0">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">{event.type}</span>
+          <h2 className="text-sm font-semibold text-zinc-100">{event.location}, {event.country}</h2>
+          <span className="text-[10px] text-zinc-500 font-mono">{event.date}</span>
+        </div>
+        <button onClick={onClose} className="ml-auto text-zinc-500 hover:text-white" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar">
+        {isSynthetic(event) && (
+          <div className="flex items-start gap-2 p-3 bg-amber-950/30 border border-amber-900/60 rounded-lg text-xs text-amber-200">
+            <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />
+            <span>Synthetic event generated by Gemini. It illustrates the pattern of reported activity and is not a verified record.</span>
+          </div>
+        )}
+
+        <p className="text-xs text-zinc-300 leading-relaxed">{event.description}</p>
+
+        <dl className="grid grid-cols-2 gap-3">
+          <Field label="Event ID" value={event.id} mono />
+          <Field label="Date" value={event.date} mono />
+          <Field label="Type" value={event.type} />
+          <Field label="Sub-type" value={event.subType} />
+          <Field label="Actor 1" value={event.actor1} />
+          <Field label="Actor 2" value={event.actor2} />
+          <Field label="Country" value={event.country} />
+          <Field label="Admin 1" value={event.admin1} />
+          <Field label="Admin 2" value={event.admin2} />
+          <Field label="Location" value={event.location} />
+          <Field label="Coordinates" value={`${event.latitude.toFixed(4)}, ${event.longitude.toFixed(4)}`} mono />
+          <Field label="Fatalities" value={<span className="text-red-400 font-mono font-bold">{event.fatalities}</span>} />
+        </dl>
+        <Field label="Source" value={event.source} />
+
+        <div className="space-y-3 pt-4 border-t border-zinc-800">
+          <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Provenance</h3>
+          {provenance ? (
+            <dl className="grid grid-cols-2 gap-3">
+              <Field label="Data source" value={ORIGIN_LABELS[provenance.origin]} />
+              <Field label="Original record" value={provenance.recordId} mono />
+              <Field label="Geo-precision" value={GEO_PRECISION_LABELS[provenance.geoPrecision]} />
+              <Field
+                label="Confidence"
+                value={
+                  <span className="flex items-center gap-2">
+                    <span className="flex-1 h-1.5 bg-zinc-800 rounded overflow-hidden">
+                      <span className="block h-full bg-indigo-500" style={{ width: `${confidence}%` }} />
+                    </span>
+                    <span className="font-mono">{confidence}%</span>
+                  </span>
+                }
+              />
+            </dl>
+          ) : (
+            <p className="text-[10px] text-zinc-600 italic">Not recorded for this event.</p>
+          )}
+          {rawUrl && (
+            <a
+              href={rawUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300"
+            >
+              <ExternalLink size={12} /> View raw record
+            </a>
+          )}
+          {!rawUrl && provenance?.origin === 'acled' && provenance.recordId && (
+            <p className="text-[10px] text-zinc-500">
+              Look up <span className="font-mono text-zinc-300">{provenance.recordId}</span> in ACLED's Data Export Tool to see the raw record.
+            </p>
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default EventDrawer;
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, FileSpreadsheet, Globe, Printer } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { downloadFile, exportFilename, toAcledCsv, toGeoJson, toKml } from '../services/exporters';
+
+interface ExportMenuProps {
+  query: string;
+  result: AnalysisResult;
+  onPrintBrief: () => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ query, result, onPrintBrief }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const options = [
+    {
+      label: 'ACLED CSV',
+      icon: FileSpreadsheet,
+      run: () => downloadFile(toAcledCsv(result.events), exportFilename(query, 'csv'), 'text/csv'),
+    },
+    {
+      label: 'GeoJSON',
+      icon: Globe,
+      run: () => downloadFile(toGeoJson(result), exportFilename(query, 'geojson'), 'application/geo+json'),
+    },
+    {
+      label: 'KML',
+      icon: FileText,
+      run: () => downloadFile(toKml(result, query), exportFilename(query, 'kml'), 'application/vnd.google-earth.kml+xml'),
+    },
+    {
+      label: 'Printable brief (PDF)',
+      icon: Printer,
+      run: onPrintBrief,
+    },
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={result.events.length === 0}
+        className="flex items-center gap-1.5 px-2 py-1 bg-zinc-900 border border-zinc-800 rounded text-[10px] text-zinc-400 hover:text-white hover:border-zinc-700 disabled:opacity-50"
+      >
+        <Download size={12} />
+        Export
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-48 z-40 bg-zinc-900 border border-zinc-800 rounded-lg shadow-xl py-1">
+          {options.map(({ label, icon: Icon, run }) => (
+            <button
+              key={label}
+              onClick={() => {
+                setIsOpen(false);
+                run();
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white"
+            >
+              <Icon size={14} className="text-zinc-500" />
+              {label}
+            </button>
+          ))}
+          <p className="px-3 pt-1 pb-1.5 text-[10px] text-zinc-600 border-t border-zinc-800 mt-1">
+            {result.events.length} events in current view
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X, Check, RotateCcw } from 'lucide-react';
+import { ConflictFilter, ConflictType } from '../types';
+
+interface FilterChipsProps {
+  filter: ConflictFilter;
+  onApply: (filter: ConflictFilter) => void;
+  disabled?: boolean;
+}
+
+type ListField = 'countries' | 'adminRegions' | 'actors' | 'types';
+type ScalarField = 'startDate' | 'endDate' | 'minFatalities';
+type FilterField = ListField | ScalarField;
+
+const FIELD_LABELS: Record<FilterField, string> = {
+  countries: 'Country',
+  adminRegions: 'Region',
+  actors: 'Actor',
+  types: 'Type',
+  startDate: 'From',
+  endDate: 'To',
+  minFatalities: 'Min. fatalities',
+};
+
+const LIST_FIELDS: ListField[] = ['countries', 'adminRegions', 'actors', 'types'];
+
+interface Chip {
+  field: FilterField;
+  index: number;
+  value: string;
+}
+
+const toChips = (filter: ConflictFilter): Chip[] => {
+  const chips: Chip[] = [];
+  LIST_FIELDS.forEach(field => {
+    (filter[field] as string[]).forEach((value, index) => chips.push({ field, index, value }));
+  });
+  if (filter.startDate) chips.push({ field: 'startDate', index: 0, value: filter.startDate });
+  if (filter.endDate) chips.push({ field: 'endDate', index: 0, value: filter.endDate });
+  if (filter.minFatalities > 0) chips.push({ field: 'minFatalities', index: 0, value: String(filter.minFatalities) });
+  return chips;
+};
+
+// Returns a copy of the filter with one value set (or removed when value is empty)
+const withValue = (filter: ConflictFilter, field: FilterField, index: number, value: string): ConflictFilter => {
+  const trimmed = value.trim();
+
+  if (field === 'minFatalities') {
+    return { ...filter, minFatalities: Math.max(0, Number(trimmed) || 0) };
+  }
+  if (field === 'startDate' || field === 'endDate') {
+    return { ...filter, [field]: trimmed || undefined };
+  }
+
+  const list = [...(filter[field] as string[])];
+  if (!trimmed) list.splice(index, 1);
+  else if (index >= list.length) list.push(trimmed);
+  else list[index] = trimmed;
+
+  // Keep lists free of duplicates after an edit
+  return { ...filter, [field]: [...new Set(list)] };
+};
+
+const ChipInput: React.FC<{
+  field: FilterField;
+  initial: string;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}> = ({ field, initial, onCommit, onCancel }) => {
+  const [value, setValue] = useState(initial);
+  const className = "bg-zinc-900 border border-indigo-500 rounded px-1.5 py-0.5 text-[10px] text-zinc-200 focus:outline-none";
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onCommit(value);
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  if (field === 'types') {
+    return (
+      <select
+        autoFocus
+        value={value}
+        onChange={(e) => onCommit(e.target.value)}
+        onBlur={onCancel}
+        className={className}
+      >
+        {!value && <option value="">Select type…</option>}
+        {Object.values(ConflictType).map(t => <option key={t} value={t}>{t}</option>)}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      autoFocus
+      type={field === 'minFatalities' ? 'number' : field === 'startDate' || field === 'endDate' ? 'date' : 'text'}
+      min={field === 'minFatalities' ? 0 : undefined}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => onCommit(value)}
+      className={`${className} w-28`}
+    />
+  );
+};
+
+const FilterChips: React.FC<FilterChipsProps> = ({ filter, onApply, disabled }) => {
+  const [draft, setDraft] = useState(filter);
+  const [editing, setEditing] = useState<{ field: FilterField; index: number } | null>(null);
+  const [addField, setAddField] = useState<FilterField>('countries');
+
+  // A new search replaces any pending edits
+  useEffect(() => {
+    setDraft(filter);
+    setEditing(null);
+  }, [filter]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(filter);
+  const chips = toChips(draft);
+
+  const commit = (field: FilterField, index: number, value: string) => {
+    setDraft(prev => withValue(prev, field, index, value));
+    setEditing(null);
+  };
+
+  const startAdd = () => {
+    const index = LIST_FIELDS.includes(addField as ListField) ? (draft[addField as ListField] as string[]).length : 0;
+    setEditing({ field: addField, index });
+  };
+
+  const isAdding = editing && !chips.some(c => c.field === editing.field && c.index === editing.index);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {chips.length === 0 && !isAdding && (
+          <span className="text-[10px] text-zinc-600 italic">No constraints — showing everything the source returns</span>
+        )}
+        {chips.map(chip => (
+          editing?.field === chip.field && editing.index === chip.index ? (
+            <ChipInput
+              key={`${chip.field}-${chip.index}`}
+              field={chip.field}
+              initial={chip.value}
+              onCommit={(value) => commit(chip.field, chip.index, value)}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <span
+              key={`${chip.field}-${chip.index}`}
+              className="group flex items-center gap-1 pl-2 pr-1 py-0.5 bg-indigo-950/40 border border-indigo-900/60 rounded text-[10px] text-indigo-200"
+            >
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => setEditing({ field: chip.field, index: chip.index })}
+                className="hover:text-white"
+                title="Click to edit"
+              >
+                <span className="text-indigo-400/70 mr-1">{FIELD_LABELS[chip.field]}:</span>
+                {chip.value}
+              </button>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => commit(chip.field, chip.index, '')}
+                className="text-indigo-400/60 hover:text-red-400"
+              >
+                <X size={10} />
+              </button>
+            </span>
+          )
+        ))}
+        {isAdding && editing && (
+          <ChipInput
+            field={editing.field}
+            initial=""
+            onCommit={(value) => commit(editing.field, editing.index, value)}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <select
+          value={addField}
+          onChange={(e) => setAddField(e.target.value as FilterField)}
+          disabled={disabled}
+          className="bg-zinc-900 border border-zinc-800 rounded px-1.5 py-1 text-[10px] text-zinc-400 focus:outline-none"
+        >
+          {(Object.keys(FIELD_LABELS) as FilterField[]).map(f => (
+            <option key={f} value={f}>{FIELD_LABELS[f]}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={startAdd}
+          disabled={disabled}
+          className="p-1 bg-zinc-900 border border-zinc-800 rounded text-zinc-400 hover:text-white hover:border-zinc-700 disabled:opacity-50"
+        >
+          <Plus size={12} />
+        </button>
+        {isDirty && (
+          <div className="ml-auto flex items-center gap-1.5">
+            <button
+              type="button"
+              onClick={() => setDraft(filter)}
+              className="p-1 text-zinc-500 hover:text-zinc-300"
+              title="Discard changes"
+            >
+              <RotateCcw size={12} />
+            </button>
+            <button
+              type="button"
+              onClick={() => onApply(draft)}
+              disabled={disabled}
+              className="flex items-center gap-1 px-2 py-1 bg-indigo-600 hover:bg-indigo-500 rounded text-[10px] text-white disabled:opacity-50"
+            >
+              <Check size={12} />
+              Apply
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FilterChips;
@@ -0,0 +1,129 @@
+import React, { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { ConflictEvent } from '../types';
+
+interface HeatmapLayerProps {
+  events: ConflictEvent[];
+  radius?: number;
+}
+
+interface HeatPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+// Transparent -> blue -> amber -> red, sampled into a 256-entry lookup
+const GRADIENT: [number, string][] = [
+  [0.2, 'rgba(59, 130, 246, 0.6)'],
+  [0.5, '#f59e0b'],
+  [0.8, '#ef4444'],
+  [1.0, '#fef2f2'],
+];
+
+let palette: Uint8ClampedArray | null = null;
+const getPalette = () => {
+  if (palette) return palette;
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  palette = ctx.getImageData(0, 0, 256, 1).data;
+  return palette;
+};
+
+// Events without fatalities still register, but lethal ones dominate
+const fatalityWeight = (fatalities: number) => 0.3 + Math.log1p(fatalities);
+
+/**
+ * Canvas layer that accumulates blurred points as alpha, then colourises the
+ * result through the palette. Redrawn on every move since it only covers the viewport.
+ */
+const HeatCanvasLayer: new (points: HeatPoint[], radius: number) => L.Layer = L.Layer.extend({
+  initialize(points: HeatPoint[], radius: number) {
+    this._points = points;
+    this._radius = radius;
+  },
+
+  onAdd(map: L.Map) {
+    this._map = map;
+    // leaflet-zoom-hide keeps the stale frame from showing during zoom animation
+    this._canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide');
+    this._canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(this._canvas);
+    map.on('moveend zoomend resize', this._redraw, this);
+    this._redraw();
+  },
+
+  onRemove(map: L.Map) {
+    map.off('moveend zoomend resize', this._redraw, this);
+    L.DomUtil.remove(this._canvas);
+  },
+
+  _redraw() {
+    const map: L.Map = this._map;
+    const canvas: HTMLCanvasElement = this._canvas;
+    const size = map.getSize();
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+    canvas.width = size.x;
+    canvas.height = size.y;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx || this._points.length === 0) return;
+
+    const radius: number = this._radius;
+    const maxWeight = this._points.reduce((max: number, p: HeatPoint) => Math.max(max, p.weight), 0);
+
+    this._points.forEach((p: HeatPoint) => {
+      const { x, y } = map.latLngToContainerPoint([p.lat, p.lng]);
+      if (x < -radius || y < -radius || x > size.x + radius || y > size.y + radius) return;
+
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.globalAlpha = Math.max(0.05, p.weight / maxWeight);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    });
+
+    const image = ctx.getImageData(0, 0, size.x, size.y);
+    const pixels = image.data;
+    const colors = getPalette();
+    for (let i = 3; i < pixels.length; i += 4) {
+      const alpha = pixels[i];
+      if (!alpha) continue;
+      const offset = alpha * 4;
+      pixels[i - 3] = colors[offset];
+      pixels[i - 2] = colors[offset + 1];
+      pixels[i - 1] = colors[offset + 2];
+      pixels[i] = Math.min(255, alpha * 1.5);
+    }
+    ctx.putImageData(image, 0, 0);
+  },
+});
+
+const HeatmapLayer: React.FC<HeatmapLayerProps> = ({ events, radius = 30 }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const points: HeatPoint[] = events.map(e => ({
+      lat: e.latitude,
+      lng: e.longitude,
+      weight: fatalityWeight(e.fatalities),
+    }));
+    const layer = new HeatCanvasLayer(points, radius);
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [events, radius, map]);
+
+  return null;
+};
+
+export default HeatmapLayer;
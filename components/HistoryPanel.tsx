@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Pin, PinOff, Pencil, Trash2, GitCompare } from 'lucide-react';
+import { SavedAnalysis } from '../types';
+
+interface HistoryPanelProps {
+  entries: SavedAnalysis[];
+  activeId: string | null;
+  /** Entry the active analysis is being compared against */
+  baselineId: string | null;
+  onOpen: (entry: SavedAnalysis) => void;
+  onRename: (id: string, name: string) => void;
+  onTogglePin: (entry: SavedAnalysis) => void;
+  onDelete: (id: string) => void;
+  onCompare: (entry: SavedAnalysis | null) => void;
+}
+
+const TREND_DOTS: Record<SavedAnalysis['result']['trend'], string> = {
+  escalating: 'bg-red-500',
+  volatile: 'bg-orange-500',
+  stable: 'bg-emerald-500',
+  'de-escalating': 'bg-blue-500',
+};
+
+const formatSavedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, activeId, baselineId, onOpen, onRename, onTogglePin, onDelete, onCompare }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (entries.length === 0) {
+    return <p className="text-[10px] text-zinc-600 italic">Past analyses will appear here.</p>;
+  }
+
+  const commitRename = (id: string) => {
+    if (draftName.trim()) onRename(id, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <ul className="space-y-1 max-h-48 overflow-y-auto pr-1 custom-scrollbar">
+      {entries.map(entry => (
+        <li
+          key={entry.id}
+          className={`group flex items-center gap-2 px-2 py-1.5 rounded border text-xs transition-colors ${
+            entry.id === activeId ? 'bg-indigo-950/40 border-indigo-900/60'
+            : entry.id === baselineId ? 'bg-amber-950/30 border-amber-900/60'
+            : 'bg-zinc-900/50 border-zinc-800 hover:border-zinc-700'
+          }`}
+        >
+          <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${TREND_DOTS[entry.result.trend]}`} title={entry.result.trend} />
+          {editingId === entry.id ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={() => commitRename(entry.id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename(entry.id);
+                else if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="flex-1 min-w-0 bg-zinc-900 border border-indigo-500 rounded px-1.5 py-0.5 text-[10px] text-zinc-200 focus:outline-none"
+            />
+          ) : (
+            <button onClick={() => onOpen(entry)} className="flex-1 min-w-0 text-left">
+              <span className="block truncate text-zinc-300">{entry.name}</span>
+              <span className="block text-[10px] text-zinc-600">
+                {formatSavedAt(entry.createdAt)} · {entry.result.events.length} events · {entry.sourceLabel}
+              </span>
+            </button>
+          )}
+          <div className={`flex items-center gap-1 shrink-0 ${entry.pinned || entry.id === baselineId ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+            {activeId && entry.id !== activeId && (
+              <button
+                onClick={() => onCompare(entry.id === baselineId ? null : entry)}
+                title={entry.id === baselineId ? 'Stop comparing' : 'Compare with current analysis'}
+                className={entry.id === baselineId ? 'text-amber-400 hover:text-white' : 'text-zinc-500 hover:text-white'}
+              >
+                <GitCompare size={12} />
+              </button>
+            )}
+            <button
+              onClick={() => onTogglePin(entry)}
+              title={entry.pinned ? 'Unpin' : 'Pin'}
+              className={entry.pinned ? 'text-indigo-400 hover:text-white' : 'text-zinc-500 hover:text-white'}
+            >
+              {entry.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+            </button>
+            <button
+              onClick={() => { setEditingId(entry.id); setDraftName(entry.name); }}
+              title="Rename"
+              className="text-zinc-500 hover:text-white"
+            >
+              <Pencil size={12} />
+            </button>
+            <button onClick={() => onDelete(entry.id)} title="Delete" className="text-zinc-500 hover:text-red-400">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { FileUp, X, AlertTriangle } from 'lucide-react';
+import { ConflictEvent, RejectedRecord } from '../types';
+import { ColumnMapping, ImportTable, MAPPABLE_FIELDS, applyMapping, guessMapping, missingRequiredFields } from '../services/importer';
+
+interface ImportDialogProps {
+  table: ImportTable;
+  onImport: (events: ConflictEvent[], rejected: RejectedRecord[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+/**
+ * Lets the analyst confirm which file column feeds each event field before
+ * the rows are validated. Known column names (ACLED's included) are pre-selected.
+ */
+const ImportDialog: React.FC<ImportDialogProps> = ({ table, onImport, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(table.columns));
+  const missing = missingRequiredFields(mapping);
+
+  // Validation is cheap enough to rerun on every mapping change, which gives a live count
+  const result = useMemo(
+    () => missing.length === 0 ? applyMapping(table, mapping) : null,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [table, mapping]
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <div>
+            <h2 className="font-bold text-sm text-zinc-100">Import {table.fileName}</h2>
+            <p className="text-[10px] text-zinc-500">
+              {table.rows.length} {table.format === 'geojson' ? 'point features' : 'rows'} · {table.columns.length} columns
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-zinc-500 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+            {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="flex items-center justify-between gap-3 text-xs">
+                <span className={required && !mapping[field] ? 'text-amber-400' : 'text-zinc-400'}>
+                  {label}{required && ' *'}
+                </span>
+                <select
+                  value={mapping[field] || ''}
+                  onChange={(e) => setMapping(m => ({ ...m, [field]: e.target.value || undefined }))}
+                  className="w-40 bg-zinc-900 border border-zinc-800 rounded px-1.5 py-1 text-[10px] text-zinc-200 focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="">—</option>
+                  {table.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Preview</h4>
+            <div className="overflow-x-auto border border-zinc-800 rounded-lg">
+              <table className="w-full text-[10px] font-mono">
+                <thead className="bg-zinc-900 text-zinc-500">
+                  <tr>
+                    {MAPPABLE_FIELDS.filter(f => mapping[f.field]).map(f => (
+                      <th key={f.field} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">{f.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="text-zinc-300">
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="border-t border-zinc-800">
+                      {MAPPABLE_FIELDS.filter(f => mapping[f.field]).map(f => (
+                        <td key={f.field} className="px-2 py-1.5 whitespace-nowrap max-w-[12rem] truncate">
+                          {row[mapping[f.field]!]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {missing.length > 0 && (
+            <p className="flex items-center gap-2 text-xs text-amber-300">
+              <AlertTriangle size={14} className="text-amber-500 shrink-0" />
+              Map {missing.map(f => f.label).join(', ')} to continue.
+            </p>
+          )}
+          {result && (
+            <p className="text-xs text-zinc-400">
+              {result.events.length} events ready
+              {result.rejected.length > 0 && (
+                <span className="text-amber-400"> · {result.rejected.length} rows will be discarded</span>
+              )}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 py-4 border-t border-zinc-800">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded text-xs text-zinc-400 hover:text-white hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => result && onImport(result.events, result.rejected)}
+            disabled={!result || result.events.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded text-xs text-white disabled:opacity-50"
+          >
+            <FileUp size={14} />
+            Plot events
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -1,37 +1,208 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { LiveClient, LiveClientState } from '../services/liveClient';
-import { Mic, Power, Activity, Cpu, Wifi, Radio, Zap } from 'lucide-react';
+import { LiveClient, LiveClientState, LiveConnectionStatus, LiveInputMode, LiveReplyMode, LiveStats, RECONNECT_MAX_ATTEMPTS } from '../services/liveClient';
+import { LiveToolActions } from '../services/liveTools';
+import { applyTranscriptUpdate, toTranscriptJson, toTranscriptMarkdown } from '../services/transcript';
+import { downloadFile, exportFilename } from '../services/exporters';
+import { LiveTranscript, TranscriptTurn } from '../types';
+import TranscriptPanel, { TranscriptFormat } from './TranscriptPanel';
+import MicControls from './MicControls';
+import { Mic, Power, Activity, Wifi, Radio, Zap } from 'lucide-react';
 
-const LiveCommand: React.FC = () => {
-    const [state, setState] = useState<LiveClientState>({ isConnected: false, isSpeaking: false, error: null });
+interface LiveCommandProps {
+    toolActions?: LiveToolActions;
+    /** Text digest of the loaded analysis, see buildAnalysisBriefing */
+    briefing?: string;
+    query?: string | null;
+    /** Saved analysis that transcripts can be attached to */
+    analysisName?: string | null;
+    attachedTranscripts?: LiveTranscript[];
+    onAttachTranscript?: (transcript: LiveTranscript) => void;
+    /** False while another tab is shown; the component stays mounted to keep the link */
+    isVisible?: boolean;
+}
+
+const TRACE_COLORS = { mic: '#10b981', model: '#ef4444' };
+const STATS_POLL_MS = 250;
+
+const STATUS_LABELS: Record<LiveConnectionStatus, string> = {
+    idle: 'OFFLINE',
+    connecting: 'CONNECTING',
+    open: 'ONLINE',
+    reconnecting: 'RECONNECTING',
+    closed: 'OFFLINE',
+};
+
+const downloadTranscript = (transcript: LiveTranscript, format: TranscriptFormat) => {
+    const name = exportFilename(`overwatch ${transcript.query || 'session'}`, format);
+    if (format === 'md') downloadFile(toTranscriptMarkdown(transcript), name, 'text/markdown');
+    else downloadFile(toTranscriptJson(transcript), name, 'application/json');
+};
+
+const LiveCommand: React.FC<LiveCommandProps> = ({ toolActions, briefing, query = null, analysisName = null, attachedTranscripts = [], onAttachTranscript, isVisible = true }) => {
+    const [state, setState] = useState<LiveClientState>({ status: 'idle', isSpeaking: false, isTransmitting: false, hasMic: false, error: null, reconnectAttempt: 0 });
+    const [stats, setStats] = useState<LiveStats>({ roundTripMs: null, bufferedSeconds: 0, droppedChunks: 0 });
+    const [turns, setTurns] = useState<TranscriptTurn[]>([]);
+    const [session, setSession] = useState<{ id: string; startedAt: number; endedAt: number | null } | null>(null);
     const clientRef = useRef<LiveClient | null>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const animationRef = useRef<number>(0);
+    const meterRef = useRef<HTMLDivElement>(null);
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [deviceId, setDeviceId] = useState<string | null>(null);
+    const [inputMode, setInputMode] = useState<LiveInputMode>('vad');
+    const [muted, setMuted] = useState(false);
+    const [replyMode, setReplyMode] = useState<LiveReplyMode>('both');
+
+    // The audio pipeline stays up while reconnecting, so "active" covers more than "open"
+    const isOpen = state.status === 'open';
+    const isActive = isOpen || state.status === 'connecting' || state.status === 'reconnecting';
 
     useEffect(() => {
         clientRef.current = new LiveClient((newState) => {
             setState(prev => ({ ...prev, ...newState }));
+        }, (update) => {
+            setTurns(prev => applyTranscriptUpdate(prev, update));
         });
         return () => {
             clientRef.current?.disconnect();
         };
     }, []);
 
+    // Keep Overwatch's tools pointed at the latest app state
+    useEffect(() => {
+        clientRef.current?.setToolActions(toolActions ?? null);
+    }, [toolActions]);
+
+    useEffect(() => {
+        if (briefing) clientRef.current?.setBriefing(briefing);
+    }, [briefing]);
+
+    useEffect(() => {
+        clientRef.current?.setInputMode(inputMode);
+    }, [inputMode]);
+
+    useEffect(() => {
+        clientRef.current?.setMuted(muted);
+    }, [muted]);
+
+    useEffect(() => {
+        clientRef.current?.setReplyMode(replyMode);
+    }, [replyMode]);
+
+    // Device labels are only exposed once mic permission is granted, so list again when the link opens
+    useEffect(() => {
+        const refresh = () => navigator.mediaDevices?.enumerateDevices()
+            .then(all => setDevices(all.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default')))
+            .catch(err => console.error("Error listing microphones:", err));
+        refresh();
+        navigator.mediaDevices?.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    }, [isOpen]);
+
+    // Hold Space to talk while this tab is shown, unless typing somewhere
+    useEffect(() => {
+        if (inputMode !== 'ptt' || !isActive || !isVisible) return;
+        const isTyping = (target: EventTarget | null) =>
+            target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+        const handleKey = (held: boolean) => (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e.target)) return;
+            // Auto-repeat would otherwise scroll the page while the key is held
+            e.preventDefault();
+            if (!e.repeat) clientRef.current?.setTalkHeld(held);
+        };
+        const down = handleKey(true);
+        const up = handleKey(false);
+        window.addEventListener('keydown', down);
+        window.addEventListener('keyup', up);
+        return () => {
+            window.removeEventListener('keydown', down);
+            window.removeEventListener('keyup', up);
+            clientRef.current?.setTalkHeld(false);
+        };
+    }, [inputMode, isActive, isVisible]);
+
+    const handleDeviceChange = (id: string | null) => {
+        setDeviceId(id);
+        clientRef.current?.setInputDevice(id);
+    };
+
+    // Stamp the end of the session so a saved transcript covers only the link time
+    useEffect(() => {
+        if (state.status === 'closed') {
+            setSession(prev => prev && prev.endedAt === null ? { ...prev, endedAt: Date.now() } : prev);
+        }
+    }, [state.status]);
+
     const toggleConnection = () => {
-        if (state.isConnected) {
+        if (isActive) {
             clientRef.current?.disconnect();
         } else {
+            // Each link starts a fresh transcript
+            const startedAt = Date.now();
+            setTurns([]);
+            setSession({ id: `session-${startedAt}`, startedAt, endedAt: null });
             clientRef.current?.connect();
         }
     };
 
-    // Simulated GPU Audio Visualizer
+    const currentTranscript = (): LiveTranscript | null => session && {
+        id: session.id,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt ?? Date.now(),
+        query,
+        turns,
+    };
+
+    // Measured link stats; sampled a few times a second rather than every frame
+    useEffect(() => {
+        if (!isActive) return;
+        const timer = window.setInterval(() => {
+            if (clientRef.current) setStats(clientRef.current.getStats());
+        }, STATS_POLL_MS);
+        return () => window.clearInterval(timer);
+    }, [isActive]);
+
+    // Audio visualizer: oscilloscope on top, spectrum below, mic and model as separate traces
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
 
+        const scopeHeight = canvas.height * 0.6;
+        let waveform = new Float32Array(0);
+        let spectrum = new Uint8Array(0);
+
+        const drawScope = (analyser: AnalyserNode, color: string) => {
+            if (waveform.length !== analyser.fftSize) waveform = new Float32Array(analyser.fftSize);
+            analyser.getFloatTimeDomainData(waveform);
+            const mid = scopeHeight / 2;
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            for (let x = 0; x < canvas.width; x++) {
+                const y = mid - waveform[Math.floor(x / canvas.width * waveform.length)] * mid;
+                if (x === 0) ctx.moveTo(x, y);
+                else ctx.lineTo(x, y);
+            }
+            ctx.stroke();
+        };
+
+        const drawSpectrum = (analyser: AnalyserNode, color: string) => {
+            if (spectrum.length !== analyser.frequencyBinCount) spectrum = new Uint8Array(analyser.frequencyBinCount);
+            analyser.getByteFrequencyData(spectrum);
+            const bottom = canvas.height;
+            const height = canvas.height - scopeHeight;
+            // Speech sits in the lower bins; show the bottom quarter of the spectrum
+            const bins = Math.floor(spectrum.length / 4);
+            const barWidth = canvas.width / bins;
+            ctx.fillStyle = color;
+            for (let i = 0; i < bins; i++) {
+                const barHeight = spectrum[i] / 255 * height;
+                ctx.fillRect(i * barWidth, bottom - barHeight, Math.max(1, barWidth - 1), barHeight);
+            }
+        };
+
         const draw = () => {
             if (!canvas || !ctx) return;
             
@@ -54,41 +225,29 @@ const LiveCommand: React.FC = () => {
                 ctx.stroke();
             }
 
-            const centerX = canvas.width / 2;
-            const centerY = canvas.height / 2;
-
-            if (state.isConnected) {
-                // Active visualization
-                const time = Date.now() / 100;
-                const amplitude = state.isSpeaking ? 80 : 20;
-                const frequency = state.isSpeaking ? 0.1 : 0.05;
-                
-                ctx.strokeStyle = state.isSpeaking ? '#ef4444' : '#10b981'; // Red for AI, Green for Standby
-                ctx.lineWidth = 2;
+            const analysers = isActive ? clientRef.current?.getAnalysers() : null;
+            if (analysers) {
+                ctx.strokeStyle = '#3f3f46';
                 ctx.beginPath();
-
-                for (let x = 0; x < canvas.width; x++) {
-                    const y = centerY + Math.sin(x * frequency + time) * amplitude * Math.sin(x * 0.01);
-                    if (x === 0) ctx.moveTo(x, y);
-                    else ctx.lineTo(x, y);
-                }
+                ctx.moveTo(0, scopeHeight);
+                ctx.lineTo(canvas.width, scopeHeight);
                 ctx.stroke();
 
-                // "Particles"
-                if (state.isSpeaking) {
-                    ctx.fillStyle = '#ef4444';
-                    for(let i=0; i<5; i++) {
-                        const rx = Math.random() * canvas.width;
-                        const ry = centerY + (Math.random() - 0.5) * 100;
-                        ctx.fillRect(rx, ry, 2, 2);
-                    }
+                drawSpectrum(analysers.input, 'rgba(16, 185, 129, 0.6)');
+                drawSpectrum(analysers.output, 'rgba(239, 68, 68, 0.6)');
+                drawScope(analysers.input, TRACE_COLORS.mic);
+                // Level meter reads the mic waveform just drawn
+                if (meterRef.current) {
+                    const rms = Math.sqrt(waveform.reduce((acc, v) => acc + v * v, 0) / waveform.length);
+                    meterRef.current.style.width = `${Math.min(100, rms * 400)}%`;
                 }
-
+                drawScope(analysers.output, TRACE_COLORS.model);
             } else {
+                if (meterRef.current) meterRef.current.style.width = '0%';
                 // Offline static
                 ctx.fillStyle = '#1f2937';
                 ctx.font = '12px monospace';
-                ctx.fillText("SYSTEM OFFLINE // WAITING FOR UPLINK", centerX - 120, centerY);
+                ctx.fillText("SYSTEM OFFLINE // WAITING FOR UPLINK", canvas.width / 2 - 120, canvas.height / 2);
             }
 
             // Scanline effect
@@ -102,24 +261,27 @@ const LiveCommand: React.FC = () => {
         draw();
 
         return () => cancelAnimationFrame(animationRef.current);
-    }, [state.isConnected, state.isSpeaking]);
+    }, [isActive]);
 
     return (
-        <div className="h-full w-full bg-black p-4 lg:p-8 flex flex-col items-center justify-center">
-            <div className="max-w-3xl w-full bg-zinc-950 border border-zinc-800 rounded-xl overflow-hidden shadow-2xl flex flex-col relative">
+        <div className="h-full w-full bg-black p-4 lg:p-8 flex flex-col items-center overflow-y-auto">
+            <div className="my-auto max-w-3xl w-full bg-zinc-950 border border-zinc-800 rounded-xl overflow-hidden shadow-2xl flex flex-col relative">
                 
                 {/* Header */}
                 <div className="p-4 border-b border-zinc-800 flex justify-between items-center bg-zinc-900/50">
                     <div className="flex items-center gap-3">
-                        <Radio className={state.isConnected ? "text-green-500 animate-pulse" : "text-zinc-600"} size={20} />
+                        <Radio className={isOpen ? "text-green-500 animate-pulse" : "text-zinc-600"} size={20} />
                         <div>
                             <h2 className="text-sm font-bold tracking-widest text-white uppercase">Overwatch Link</h2>
                             <p className="text-[10px] text-zinc-500 font-mono">SECURE CHANNEL // END-TO-END ENCRYPTED</p>
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
-                        <div className={`h-2 w-2 rounded-full ${state.isConnected ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                        <span className="text-xs font-mono text-zinc-400">{state.isConnected ? "ONLINE" : "OFFLINE"}</span>
+                        <div className={`h-2 w-2 rounded-full ${isOpen ? 'bg-green-500' : isActive ? 'bg-amber-500 animate-pulse' : 'bg-red-500'}`}></div>
+                        <span className="text-xs font-mono text-zinc-400">
+                            {STATUS_LABELS[state.status]}
+                            {state.status === 'reconnecting' && ` ${state.reconnectAttempt}/${RECONNECT_MAX_ATTEMPTS}`}
+                        </span>
                     </div>
                 </div>
 
@@ -135,27 +297,67 @@ const LiveCommand: React.FC = () => {
                     {/* Overlay Stats */}
                     <div className="absolute top-4 left-4 space-y-2">
                         <div className="flex items-center gap-2 text-[10px] text-zinc-500 font-mono">
-                            <Cpu size={12} />
-                            <span>GPU ACCEL: ACTIVE</span>
+                            <Wifi size={12} />
+                            <span>ROUND TRIP: {isActive && stats.roundTripMs !== null ? `${Math.round(stats.roundTripMs)}ms` : '--'}</span>
                         </div>
                         <div className="flex items-center gap-2 text-[10px] text-zinc-500 font-mono">
-                            <Wifi size={12} />
-                            <span>LATENCY: {state.isConnected ? '12ms' : '--'}</span>
+                            <Activity size={12} />
+                            <span>BUFFERED: {isActive ? `${stats.bufferedSeconds.toFixed(2)}s` : '--'}</span>
                         </div>
-                         <div className="flex items-center gap-2 text-[10px] text-zinc-500 font-mono">
+                        <div className="flex items-center gap-2 text-[10px] text-zinc-500 font-mono">
                             <Zap size={12} />
-                            <span>THREAD: MAIN</span>
+                            <span className={stats.droppedChunks > 0 ? 'text-amber-500' : ''}>DROPPED: {isActive ? stats.droppedChunks : '--'}</span>
                         </div>
                     </div>
+                    <div className="absolute top-4 right-4 space-y-1 text-[10px] font-mono text-right">
+                        <div style={{ color: TRACE_COLORS.mic }}>MIC</div>
+                        <div style={{ color: TRACE_COLORS.model }}>OVERWATCH</div>
+                    </div>
                 </div>
 
+                <TranscriptPanel
+                    turns={turns}
+                    onDownload={(format) => {
+                        const transcript = currentTranscript();
+                        if (transcript) downloadTranscript(transcript, format);
+                    }}
+                    attachTo={onAttachTranscript ? analysisName : null}
+                    onAttach={() => {
+                        const transcript = currentTranscript();
+                        if (transcript) onAttachTranscript?.(transcript);
+                    }}
+                    attached={attachedTranscripts}
+                    onDownloadAttached={downloadTranscript}
+                    canSend={isOpen}
+                    onSendText={(text) => clientRef.current?.sendText(text) ?? false}
+                    replyMode={replyMode}
+                    onReplyModeChange={setReplyMode}
+                />
+
                 {/* Controls */}
                 <div className="p-6 bg-zinc-900/30 flex flex-col items-center gap-4">
                     <p className="text-xs text-zinc-400 text-center max-w-md leading-relaxed">
                         Establish a real-time voice link with the Overwatch AI system for tactical briefings and scenario analysis.
-                        <br/><span className="text-zinc-600 text-[10px]">Requires microphone access. Data processed via WebRTC stream.</span>
+                        <br/><span className="text-zinc-600 text-[10px]">Speak with microphone access, or type below. Data processed via WebRTC stream.</span>
                     </p>
 
+                    <MicControls
+                        devices={devices}
+                        deviceId={deviceId}
+                        onDeviceChange={handleDeviceChange}
+                        mode={inputMode}
+                        onModeChange={setInputMode}
+                        muted={muted}
+                        onMutedChange={setMuted}
+                        onTalk={(held) => clientRef.current?.setTalkHeld(held)}
+                        isTransmitting={state.isTransmitting}
+                        meterRef={meterRef}
+                    />
+
+                    {isOpen && !state.hasMic && (
+                        <div className="text-amber-500 text-[10px] font-mono">NO MICROPHONE // TEXT CHANNEL ONLY</div>
+                    )}
+
                     {state.error && (
                         <div className="text-red-500 text-xs font-mono border border-red-900/50 bg-red-900/10 px-3 py-1 rounded">
                             ERROR: {state.error}
@@ -166,15 +368,15 @@ const LiveCommand: React.FC = () => {
                         onClick={toggleConnection}
                         className={`
                             group relative px-8 py-4 rounded-lg font-bold tracking-wider uppercase transition-all duration-300 overflow-hidden
-                            ${state.isConnected 
+                            ${isActive
                                 ? 'bg-red-900/20 text-red-500 border border-red-900 hover:bg-red-900/40' 
                                 : 'bg-emerald-900/20 text-emerald-500 border border-emerald-900 hover:bg-emerald-900/40'
                             }
                         `}
                     >
                         <div className="flex items-center gap-3 z-10 relative">
-                            {state.isConnected ? <Power size={18} /> : <Mic size={18} />}
-                            <span>{state.isConnected ? "Terminate Uplink" : "Initiate Voice Link"}</span>
+                            {isActive ? <Power size={18} /> : <Mic size={18} />}
+                            <span>{isActive ? "Terminate Uplink" : "Initiate Voice Link"}</span>
                         </div>
                         {/* Button scanline effect */}
                         <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000"></div>
@@ -1,9 +1,21 @@
-import React, { useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Tooltip, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { ConflictEvent, ConflictType } from '../types';
-import { Crosshair, AlertTriangle, Users, Skull, Target, Flag } from 'lucide-react';
+import { BoundaryLevel, ConflictEvent, ConflictType, MapViewport, RegionSelection, WatchArea, WatchRule } from '../types';
+import { Crosshair, AlertTriangle, Users, Skull, Target, Flag, MapPin, Flame, Layers, GitCompare, PanelRightOpen } from 'lucide-react';
 import { renderToStaticMarkup } from 'react-dom/server';
+import Timeline from './Timeline';
+import HeatmapLayer from './HeatmapLayer';
+import ChoroplethLayer, { ChoroplethMetric, METRIC_LABELS } from './ChoroplethLayer';
+import DiffLayer, { DIFF_STYLES } from './DiffLayer';
+import WatchLayer, { WatchDrawMode } from './WatchLayer';
+import { DayRange, eventDayRange, toDayNumber } from '../services/dates';
+import { clusterByGrid } from '../services/clustering';
+import { hasBoundaryFile } from '../services/boundaries';
+import { AnalysisDiff } from '../services/analysisDiff';
+import { LatLngBounds } from '../services/liveTools';
+import { isSynthetic } from '../services/provenance';
+import { TYPE_COLORS } from '../constants';
 
 // Fix for default Leaflet marker icons in some build environments
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -15,121 +27,503 @@ L.Icon.Default.mergeOptions({
 
 interface MapProps {
   events: ConflictEvent[];
+  selectedRegion?: RegionSelection | null;
+  onRegionSelect?: (region: RegionSelection | null) => void;
+  /** When set, a Compare mode overlays the baseline and current analyses */
+  diff?: AnalysisDiff | null;
+  watchRules?: WatchRule[];
+  /** While set, map clicks draw a watch area instead of interacting with layers */
+  drawMode?: WatchDrawMode | null;
+  onDrawComplete?: (area: WatchArea) => void;
+  onDrawCancel?: () => void;
+  /** Restored view; when given, the first loaded result doesn't re-fit the map */
+  initialViewport?: MapViewport | null;
+  /** Changes once per loaded result; the map fits the events when it does */
+  fitKey?: number;
+  onViewportChange?: (viewport: MapViewport) => void;
+  selectedEventId?: string | null;
+  onEventSelect?: (id: string) => void;
+  onEventClose?: (id: string) => void;
+  /** Opens the full detail drawer for an event */
+  onEventDetails?: (id: string) => void;
+  /** Area to fly to when it changes, e.g. from an Overwatch fly_to call */
+  focusBounds?: LatLngBounds | null;
 }
 
+const TYPE_STYLES: Record<ConflictType, { color: string; Icon: typeof AlertTriangle }> = {
+  [ConflictType.BATTLE]: { color: TYPE_COLORS[ConflictType.BATTLE], Icon: Crosshair },
+  [ConflictType.PROTEST]: { color: TYPE_COLORS[ConflictType.PROTEST], Icon: Users },
+  [ConflictType.RIOT]: { color: TYPE_COLORS[ConflictType.RIOT], Icon: Flag },
+  [ConflictType.EXPLOSION]: { color: TYPE_COLORS[ConflictType.EXPLOSION], Icon: Target },
+  [ConflictType.VIOLENCE_AGAINST_CIVILIANS]: { color: TYPE_COLORS[ConflictType.VIOLENCE_AGAINST_CIVILIANS], Icon: Skull },
+  [ConflictType.STRATEGIC_DEVELOPMENT]: { color: TYPE_COLORS[ConflictType.STRATEGIC_DEVELOPMENT], Icon: Flag },
+};
+
+const DEFAULT_STYLE = { color: '#ef4444', Icon: AlertTriangle }; // red-500
+
+// DivIcons are immutable, so one per type/state is shared by every marker; cluster badges have their own cache
+const iconCache = new Map<string, L.DivIcon>();
+
 // Helper to create custom icons based on event type
-const createCustomIcon = (type: ConflictType) => {
-  let color = '#ef4444'; // red-500 default
-  let IconComponent = AlertTriangle;
-
-  switch (type) {
-    case ConflictType.BATTLE:
-      color = '#dc2626'; // red-600
-      IconComponent = Crosshair;
-      break;
-    case ConflictType.PROTEST:
-      color = '#3b82f6'; // blue-500
-      IconComponent = Users;
-      break;
-    case ConflictType.RIOT:
-      color = '#f97316'; // orange-500
-      IconComponent = Flag;
-      break;
-    case ConflictType.EXPLOSION:
-      color = '#b91c1c'; // red-700
-      IconComponent = Target;
-      break;
-    case ConflictType.VIOLENCE_AGAINST_CIVILIANS:
-      color = '#7f1d1d'; // red-900
-      IconComponent = Skull;
-      break;
-    case ConflictType.STRATEGIC_DEVELOPMENT:
-      color = '#10b981'; // emerald-500
-      IconComponent = Flag;
-      break;
-  }
+const createCustomIcon = (type: ConflictType, isRecent = true) => {
+  const cacheKey = `${type}:${isRecent}`;
+  const cached = iconCache.get(cacheKey);
+  if (cached) return cached;
+
+  const { color, Icon: IconComponent } = TYPE_STYLES[type] || DEFAULT_STYLE;
 
   const iconMarkup = renderToStaticMarkup(
     <div className="relative flex items-center justify-center w-8 h-8">
-      <div className="absolute w-full h-full rounded-full opacity-30 animate-ping" style={{ backgroundColor: color }}></div>
+      {isRecent && <div className="absolute w-full h-full rounded-full opacity-30 animate-ping" style={{ backgroundColor: color }}></div>}
       <div className="relative flex items-center justify-center w-6 h-6 rounded-full shadow-lg border-2 border-white dark:border-zinc-900" style={{ backgroundColor: color }}>
         <IconComponent size={12} color="white" />
       </div>
     </div>
   );
 
-  return new L.DivIcon({
+  const icon = new L.DivIcon({
     html: iconMarkup,
     className: 'bg-transparent border-none',
     iconSize: [32, 32],
     iconAnchor: [16, 16], // Center
     popupAnchor: [0, -16],
   });
+  iconCache.set(cacheKey, icon);
+  return icon;
+};
+
+type TypeBreakdown = [ConflictType, number][];
+
+const breakdownByType = (events: ConflictEvent[]): TypeBreakdown => {
+  const counts = new Map<ConflictType, number>();
+  events.forEach(e => counts.set(e.type, (counts.get(e.type) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
+
+// Badges are keyed by exact counts, which change on every zoom and playback frame,
+// so only the most recent ones are kept
+const MAX_CLUSTER_ICONS = 200;
+const clusterIconCache = new Map<string, L.DivIcon>();
+
+// Cluster badge: total in the middle, ring segments sized by event type share
+const createClusterIcon = (breakdown: TypeBreakdown) => {
+  const cacheKey = breakdown.map(([type, count]) => `${type}=${count}`).join('|');
+  const cached = clusterIconCache.get(cacheKey);
+  if (cached) return cached;
+
+  const total = breakdown.reduce((acc, [, count]) => acc + count, 0);
+  const size = Math.min(56, 30 + Math.log10(total) * 10);
+
+  let angle = 0;
+  const stops = breakdown.map(([type, count]) => {
+    const start = angle;
+    angle += (count / total) * 360;
+    return `${(TYPE_STYLES[type] || DEFAULT_STYLE).color} ${start}deg ${angle}deg`;
+  });
+
+  const iconMarkup = renderToStaticMarkup(
+    <div
+      className="flex items-center justify-center rounded-full shadow-lg"
+      style={{ width: size, height: size, background: `conic-gradient(${stops.join(', ')})` }}
+    >
+      <div
+        className="flex items-center justify-center rounded-full bg-zinc-950 text-white font-bold font-mono"
+        style={{ width: size - 10, height: size - 10, fontSize: size > 40 ? 12 : 10 }}
+      >
+        {total}
+      </div>
+    </div>
+  );
+
+  const icon = new L.DivIcon({
+    html: iconMarkup,
+    className: 'bg-transparent border-none',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+  if (clusterIconCache.size >= MAX_CLUSTER_ICONS) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    clusterIconCache.delete(clusterIconCache.keys().next().value!);
+  }
+  clusterIconCache.set(cacheKey, icon);
+  return icon;
 };
 
-// Component to handle auto-zooming to bounds
-const MapUpdater: React.FC<{ events: ConflictEvent[] }> = ({ events }) => {
+// Zooms to the events once per loaded result, not for every streamed event or filter change
+const MapUpdater: React.FC<{ events: ConflictEvent[]; fitKey?: number; skipFirstFit?: boolean }> = ({ events, fitKey, skipFirstFit }) => {
   const map = useMap();
+  const skipRef = useRef(skipFirstFit);
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
 
   useEffect(() => {
-    if (events.length > 0) {
-      const bounds = L.latLngBounds(events.map(e => [e.latitude, e.longitude]));
-      map.flyToBounds(bounds, { padding: [50, 50], maxZoom: 10, duration: 1.5 });
+    const current = eventsRef.current;
+    if (current.length === 0) return;
+    if (skipRef.current) {
+      skipRef.current = false;
+      return;
     }
-  }, [events, map]);
+    const bounds = L.latLngBounds(current.map(e => [e.latitude, e.longitude]));
+    map.flyToBounds(bounds, { padding: [50, 50], maxZoom: 10, duration: 1.5 });
+  }, [fitKey, map]);
 
   return null;
 };
 
-const ConflictMap: React.FC<MapProps> = ({ events }) => {
-  const defaultCenter: [number, number] = [20.0, 0.0]; // World centerish
-  const defaultZoom = 2;
+const BoundsFocus: React.FC<{ bounds: LatLngBounds | null | undefined }> = ({ bounds }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (bounds) map.flyToBounds(bounds, { padding: [50, 50], maxZoom: 11, duration: 1.5 });
+  }, [bounds, map]);
+
+  return null;
+};
+
+const ViewportTracker: React.FC<{ onChange: (viewport: MapViewport) => void }> = ({ onChange }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onChange({ center: [center.lat, center.lng], zoom: map.getZoom() });
+    },
+  });
+  return null;
+};
+
+interface VisibleEvent {
+  event: ConflictEvent;
+  opacity: number;
+}
+
+interface EventSelectionProps {
+  selectedEventId?: string | null;
+  onEventSelect?: (id: string) => void;
+  onEventClose?: (id: string) => void;
+  onEventDetails?: (id: string) => void;
+}
+
+const EventMarker: React.FC<VisibleEvent & EventSelectionProps> = ({ event, opacity, selectedEventId, onEventSelect, onEventClose, onEventDetails }) => {
+  const markerRef = useRef<L.Marker>(null);
+  const isSelected = event.id === selectedEventId;
+
+  useEffect(() => {
+    if (isSelected) markerRef.current?.openPopup();
+  }, [isSelected]);
 
   return (
-    <div className="h-full w-full rounded-xl overflow-hidden shadow-2xl border border-zinc-800">
-      <MapContainer
-        center={defaultCenter}
-        zoom={defaultZoom}
-        style={{ height: '100%', width: '100%', background: '#18181b' }}
-        zoomControl={false}
-      >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
-          url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
-        />
-        
-        <MapUpdater events={events} />
+    <Marker 
+      ref={markerRef}
+      position={[event.latitude, event.longitude]}
+      icon={createCustomIcon(event.type, opacity === 1)}
+      opacity={opacity}
+      eventHandlers={{
+        popupopen: () => onEventSelect?.(event.id),
+        popupclose: () => onEventClose?.(event.id),
+      }}
+    >
+      <Popup className="custom-popup">
+        <div className="p-1 min-w-[200px]">
+          <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold uppercase tracking-wider text-zinc-500">{event.type}</span>
+              <span className="text-xs text-zinc-400">
+                {isSynthetic(event) && <span className="mr-1 px-1 rounded bg-amber-100 text-amber-700 text-[10px] font-bold">SYNTHETIC</span>}
+                {event.date}
+              </span>
+          </div>
+          <h3 className="font-bold text-zinc-900 text-sm mb-1">{event.location}, {event.country}</h3>
+          <p className="text-zinc-600 text-xs mb-2 leading-relaxed">{event.description}</p>
+    
+          <div className="grid grid-cols-2 gap-2 text-xs bg-zinc-100 p-2 rounded">
+              <div>
+                  <span className="block text-zinc-400 text-[10px]">Fatalities</span>
+                  <span className="font-mono font-bold text-red-600">{event.fatalities}</span>
+              </div>
+               <div>
+                  <span className="block text-zinc-400 text-[10px]">Source</span>
+                  <span className="truncate block">{event.source || 'Unknown'}</span>
+              </div>
+          </div>
+          {onEventDetails && (
+            <button
+              onClick={() => onEventDetails(event.id)}
+              className="mt-2 w-full flex items-center justify-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              <PanelRightOpen size={12} /> Full details
+            </button>
+          )}
+        </div>
+      </Popup>
+    </Marker>
+  );
+};
+
+// Brings an event selected from the sidebar or a link into view at a zoom where it is no longer
+// clustered. A marker clicked on the map is already visible, so its selection is left alone.
+const SelectedEventFocus: React.FC<{
+  event: ConflictEvent | undefined;
+  pickedOnMapRef: React.MutableRefObject<string | null>;
+}> = ({ event, pickedOnMapRef }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!event || event.id === pickedOnMapRef.current) return;
+    const position: [number, number] = [event.latitude, event.longitude];
+    if (map.getZoom() <= CLUSTER_MAX_ZOOM || !map.getBounds().contains(position)) {
+      map.flyTo(position, Math.max(map.getZoom(), CLUSTER_MAX_ZOOM + 1), { duration: 1 });
+    }
+  }, [event, map]);
+
+  return null;
+};
+
+// Pixel size of the clustering grid, and the zoom at which clustering stops
+const CLUSTER_CELL_PX = 60;
+const CLUSTER_MAX_ZOOM = 13;
 
-        {events.map((event) => (
-          <Marker 
-            key={event.id} 
-            position={[event.latitude, event.longitude]}
-            icon={createCustomIcon(event.type)}
+const ClusteredMarkers: React.FC<{ items: VisibleEvent[] } & EventSelectionProps> = ({ items, ...selection }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const clusters = useMemo(() => {
+    if (zoom > CLUSTER_MAX_ZOOM) {
+      return items.map(item => ({ key: item.event.id, items: [item], latitude: item.event.latitude, longitude: item.event.longitude }));
+    }
+    return clusterByGrid<VisibleEvent>(
+      items,
+      item => [item.event.latitude, item.event.longitude],
+      latLng => map.project(latLng, zoom),
+      CLUSTER_CELL_PX
+    );
+  }, [items, zoom, map]);
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.items.length === 1) {
+          const item = cluster.items[0];
+          return <EventMarker key={item.event.id} event={item.event} opacity={item.opacity} {...selection} />;
+        }
+
+        const breakdown = breakdownByType(cluster.items.map(i => i.event));
+        return (
+          <Marker
+            key={cluster.key}
+            position={[cluster.latitude, cluster.longitude]}
+            icon={createClusterIcon(breakdown)}
+            eventHandlers={{
+              click: () => {
+                const bounds = L.latLngBounds(cluster.items.map(i => [i.event.latitude, i.event.longitude]));
+                map.flyToBounds(bounds, { padding: [50, 50], maxZoom: CLUSTER_MAX_ZOOM + 1 });
+              },
+            }}
           >
-            <Popup className="custom-popup">
-              <div className="p-1 min-w-[200px]">
-                <div className="flex items-center justify-between mb-2">
-                    <span className="text-xs font-bold uppercase tracking-wider text-zinc-500">{event.type}</span>
-                    <span className="text-xs text-zinc-400">{event.date}</span>
-                </div>
-                <h3 className="font-bold text-zinc-900 text-sm mb-1">{event.location}, {event.country}</h3>
-                <p className="text-zinc-600 text-xs mb-2 leading-relaxed">{event.description}</p>
-                
-                <div className="grid grid-cols-2 gap-2 text-xs bg-zinc-100 p-2 rounded">
-                    <div>
-                        <span className="block text-zinc-400 text-[10px]">Fatalities</span>
-                        <span className="font-mono font-bold text-red-600">{event.fatalities}</span>
-                    </div>
-                     <div>
-                        <span className="block text-zinc-400 text-[10px]">Source</span>
-                        <span className="truncate block">{event.source || 'Unknown'}</span>
-                    </div>
-                </div>
+            <Tooltip direction="top" offset={[0, -16]}>
+              <div className="text-[10px] space-y-0.5">
+                {breakdown.map(([type, count]) => (
+                  <div key={type} className="flex items-center gap-1.5">
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: (TYPE_STYLES[type] || DEFAULT_STYLE).color }} />
+                    <span>{type}</span>
+                    <span className="ml-auto pl-2 font-mono font-bold">{count}</span>
+                  </div>
+                ))}
               </div>
-            </Popup>
+            </Tooltip>
           </Marker>
-        ))}
-      </MapContainer>
+        );
+      })}
+    </>
+  );
+};
+
+type LayerMode = 'markers' | 'heatmap' | 'choropleth' | 'compare';
+
+// Older events in the window fade towards this opacity
+const MIN_OPACITY = 0.25;
+
+const ConflictMap: React.FC<MapProps> = ({
+  events, selectedRegion, onRegionSelect, diff, watchRules = [], drawMode, onDrawComplete, onDrawCancel,
+  initialViewport, fitKey, onViewportChange, selectedEventId, onEventSelect, onEventClose, onEventDetails, focusBounds,
+}) => {
+  const defaultCenter: [number, number] = initialViewport?.center ?? [20.0, 0.0]; // World centerish
+  const defaultZoom = initialViewport?.zoom ?? 2;
+  const selectedEvent = useMemo(() => events.find(e => e.id === selectedEventId), [events, selectedEventId]);
+  // Event whose popup is open on the map; selecting it needs no camera move
+  const pickedOnMapRef = useRef<string | null>(null);
+  const handleMarkerSelect = (id: string) => {
+    pickedOnMapRef.current = id;
+    onEventSelect?.(id);
+  };
+  const handleMarkerClose = (id: string) => {
+    if (pickedOnMapRef.current === id) pickedOnMapRef.current = null;
+    onEventClose?.(id);
+  };
+
+  const bounds = useMemo(() => eventDayRange(events.map(e => e.date)), [events]);
+  const [timeWindow, setTimeWindow] = useState<DayRange | null>(bounds);
+  const [layerMode, setLayerMode] = useState<LayerMode>('markers');
+  const [boundaryLevel, setBoundaryLevel] = useState<BoundaryLevel>('country');
+  // admin1.geojson is optional; the level is only offered once the file is known to exist
+  const [hasAdmin1, setHasAdmin1] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    hasBoundaryFile('admin1').then(available => {
+      if (active) setHasAdmin1(available);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+  const [choroplethMetric, setChoroplethMetric] = useState<ChoroplethMetric>('events');
+
+  // Starting a comparison switches to the overlay; ending one falls back to markers
+  useEffect(() => {
+    setLayerMode(mode => diff ? 'compare' : mode === 'compare' ? 'markers' : mode);
+  }, [diff]);
+
+  // New data resets the window to cover everything
+  useEffect(() => {
+    setTimeWindow(bounds);
+  }, [bounds]);
+
+  const dailyCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    events.forEach(e => {
+      const day = toDayNumber(e.date);
+      if (!isNaN(day)) counts.set(day, (counts.get(day) || 0) + 1);
+    });
+    return counts;
+  }, [events]);
+
+  // Events inside the window, with an opacity reflecting how recent they are
+  const visibleEvents = useMemo((): VisibleEvent[] => {
+    if (!timeWindow) return events.map(event => ({ event, opacity: 1 }));
+    const length = timeWindow.end - timeWindow.start;
+    return events
+      .map(event => ({ event, day: toDayNumber(event.date) }))
+      .filter(({ day }) => day >= timeWindow.start && day <= timeWindow.end)
+      .map(({ event, day }) => ({
+        event,
+        opacity: length > 0 ? 1 - (1 - MIN_OPACITY) * ((timeWindow.end - day) / length) : 1,
+      }));
+  }, [events, timeWindow]);
+
+  const windowEvents = useMemo(() => visibleEvents.map(v => v.event), [visibleEvents]);
+
+  return (
+    <div className="h-full w-full flex flex-col rounded-xl overflow-hidden shadow-2xl border border-zinc-800">
+      <div className="relative flex-1 min-h-0">
+        {drawMode && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-3 px-3 py-2 bg-amber-950/90 border border-amber-800 rounded-lg text-[10px] text-amber-200 shadow-xl">
+            {drawMode === 'polygon'
+              ? 'Click to add points, double-click to finish'
+              : 'Click the centre, then click again to set the radius'}
+            <button onClick={onDrawCancel} className="text-amber-400 hover:text-white">Cancel (Esc)</button>
+          </div>
+        )}
+
+        {/* Layer Switcher */}
+        <div className="absolute top-4 right-4 z-[1000] flex flex-col items-end gap-2">
+          <div className="flex bg-zinc-900/90 backdrop-blur border border-zinc-800 rounded-lg p-1 shadow-xl">
+            {([['markers', 'Markers', MapPin], ['heatmap', 'Heatmap', Flame], ['choropleth', 'Regions', Layers], ['compare', 'Compare', GitCompare]] as const)
+              .filter(([mode]) => mode !== 'compare' || diff)
+              .map(([mode, label, Icon]) => (
+              <button
+                key={mode}
+                onClick={() => setLayerMode(mode)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-[10px] font-medium transition-all ${
+                  layerMode === mode
+                    ? 'bg-indigo-600 text-white shadow-md'
+                    : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'
+                }`}
+              >
+                <Icon size={12} />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {layerMode === 'choropleth' && (
+            <div className="flex gap-1.5">
+              <select
+                value={boundaryLevel}
+                onChange={(e) => setBoundaryLevel(e.target.value as BoundaryLevel)}
+                className="bg-zinc-900/90 border border-zinc-800 rounded-md px-2 py-1 text-[10px] text-zinc-300 focus:outline-none"
+              >
+                <option value="country">Country</option>
+                <option value="admin1" disabled={!hasAdmin1}>
+                  {hasAdmin1 ? 'Admin-1' : 'Admin-1 (not installed)'}
+                </option>
+              </select>
+              <select
+                value={choroplethMetric}
+                onChange={(e) => setChoroplethMetric(e.target.value as ChoroplethMetric)}
+                className="bg-zinc-900/90 border border-zinc-800 rounded-md px-2 py-1 text-[10px] text-zinc-300 focus:outline-none"
+              >
+                {(Object.keys(METRIC_LABELS) as ChoroplethMetric[]).map(m => (
+                  <option key={m} value={m}>{METRIC_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {layerMode === 'compare' && diff && (
+            <div className="bg-zinc-900/90 backdrop-blur border border-zinc-800 rounded-lg px-3 py-2 shadow-xl space-y-1">
+              {(Object.keys(DIFF_STYLES) as (keyof typeof DIFF_STYLES)[]).map(status => (
+                <div key={status} className="flex items-center gap-2 text-[10px] text-zinc-300">
+                  <span className="inline-block w-2.5 h-2.5 rounded-full border-2" style={{ borderColor: DIFF_STYLES[status].color }} />
+                  {DIFF_STYLES[status].label}
+                  <span className="ml-auto pl-3 font-mono text-zinc-500">{diff[status].length}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <MapContainer
+          center={defaultCenter}
+          zoom={defaultZoom}
+          style={{ height: '100%', width: '100%', background: '#18181b' }}
+          zoomControl={false}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+            url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+          />
+        
+          <MapUpdater events={events} fitKey={fitKey} skipFirstFit={!!initialViewport} />
+          {onViewportChange && <ViewportTracker onChange={onViewportChange} />}
+          <SelectedEventFocus event={selectedEvent} pickedOnMapRef={pickedOnMapRef} />
+          <BoundsFocus bounds={focusBounds} />
+
+          {layerMode === 'markers' && (
+            <ClusteredMarkers
+              items={visibleEvents}
+              selectedEventId={selectedEventId}
+              onEventSelect={handleMarkerSelect}
+              onEventClose={handleMarkerClose}
+              onEventDetails={onEventDetails}
+            />
+          )}
+          {layerMode === 'heatmap' && <HeatmapLayer events={windowEvents} />}
+          {layerMode === 'choropleth' && (
+            <ChoroplethLayer
+              events={windowEvents}
+              level={boundaryLevel}
+              metric={choroplethMetric}
+              selectedKey={selectedRegion?.level === boundaryLevel ? selectedRegion.key : null}
+              onSelect={onRegionSelect}
+            />
+          )}
+          {layerMode === 'compare' && diff && <DiffLayer diff={diff} />}
+          <WatchLayer rules={watchRules} drawMode={drawMode} onDrawComplete={onDrawComplete} onDrawCancel={onDrawCancel} />
+        </MapContainer>
+      </div>
+
+      {layerMode !== 'compare' && bounds && timeWindow && bounds.end > bounds.start && (
+        <Timeline bounds={bounds} value={timeWindow} onChange={setTimeWindow} counts={dailyCounts} />
+      )}
     </div>
   );
 };
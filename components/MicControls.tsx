@@ -0,0 +1,91 @@
+import React from 'react';
+import { Mic, MicOff, Radio } from 'lucide-react';
+import { LiveInputMode } from '../services/liveClient';
+
+interface MicControlsProps {
+  devices: MediaDeviceInfo[];
+  deviceId: string | null;
+  onDeviceChange: (deviceId: string | null) => void;
+  mode: LiveInputMode;
+  onModeChange: (mode: LiveInputMode) => void;
+  muted: boolean;
+  onMutedChange: (muted: boolean) => void;
+  onTalk: (held: boolean) => void;
+  isTransmitting: boolean;
+  // Width is set from the visualiser loop to avoid re-rendering every frame
+  meterRef: React.RefObject<HTMLDivElement>;
+}
+
+const MODES: { value: LiveInputMode; label: string }[] = [
+  { value: 'vad', label: 'Voice activated' },
+  { value: 'ptt', label: 'Push to talk' },
+];
+
+const MicControls: React.FC<MicControlsProps> = ({
+  devices, deviceId, onDeviceChange, mode, onModeChange, muted, onMutedChange, onTalk, isTransmitting, meterRef,
+}) => (
+  <div className="w-full max-w-xl space-y-3">
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={deviceId ?? ''}
+        onChange={(e) => onDeviceChange(e.target.value || null)}
+        className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-2 py-1.5 text-[10px] font-mono text-zinc-300 focus:outline-none focus:border-zinc-600"
+      >
+        <option value="">Default microphone</option>
+        {devices.map((d, i) => (
+          <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+        ))}
+      </select>
+
+      <div className="flex rounded border border-zinc-800 overflow-hidden">
+        {MODES.map(m => (
+          <button
+            key={m.value}
+            onClick={() => onModeChange(m.value)}
+            className={`px-2 py-1.5 text-[10px] font-mono uppercase tracking-wider transition-colors ${
+              mode === m.value ? 'bg-zinc-800 text-white' : 'bg-zinc-900 text-zinc-500 hover:text-zinc-300'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onMutedChange(!muted)}
+        title={muted ? 'Unmute' : 'Mute'}
+        className={`flex items-center gap-1 px-2 py-1.5 rounded border text-[10px] font-mono uppercase tracking-wider transition-colors ${
+          muted ? 'bg-red-900/30 border-red-900 text-red-400' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-zinc-200'
+        }`}
+      >
+        {muted ? <MicOff size={12} /> : <Mic size={12} />}
+        {muted ? 'Muted' : 'Mute'}
+      </button>
+    </div>
+
+    <div className="flex items-center gap-3">
+      <div className="flex-1 h-1.5 bg-zinc-900 rounded overflow-hidden">
+        <div ref={meterRef} className={`h-full ${muted ? 'bg-zinc-600' : 'bg-emerald-500'}`} style={{ width: '0%' }} />
+      </div>
+      <span className={`flex items-center gap-1 text-[10px] font-mono ${isTransmitting ? 'text-emerald-400' : 'text-zinc-600'}`}>
+        <Radio size={10} /> {isTransmitting ? 'TX' : 'STANDBY'}
+      </span>
+    </div>
+
+    {mode === 'ptt' && (
+      <button
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); onTalk(true); }}
+        onPointerUp={() => onTalk(false)}
+        onPointerCancel={() => onTalk(false)}
+        disabled={muted}
+        className={`w-full py-3 rounded border font-mono text-xs uppercase tracking-widest select-none transition-colors disabled:opacity-40 ${
+          isTransmitting ? 'bg-emerald-900/40 border-emerald-700 text-emerald-300' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:border-zinc-700'
+        }`}
+      >
+        Hold to talk <span className="text-zinc-600">// or hold Space</span>
+      </button>
+    )}
+  </div>
+);
+
+export default MicControls;
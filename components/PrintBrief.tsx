@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { BarChart, Bar, XAxis, YAxis, Cell, LineChart, Line, CartesianGrid } from 'recharts';
+import { AnalysisResult, ConflictType } from '../types';
+import { TYPE_COLORS } from '../constants';
+import { comparePeriods, fatalitySeries, formatChange } from '../services/timeSeries';
+import StaticMapSnapshot from './StaticMapSnapshot';
+
+interface PrintBriefProps {
+  query: string;
+  result: AnalysisResult;
+  attribution: string;
+  onDone: () => void;
+}
+
+/**
+ * One-page printable brief. Rendered into <body> outside #root; index.html
+ * hides the app in print media so only the brief reaches the page.
+ * Charts use fixed sizes because ResponsiveContainer can't measure hidden nodes.
+ */
+const PrintBrief: React.FC<PrintBriefProps> = ({ query, result, attribution, onDone }) => {
+  const [mapReady, setMapReady] = useState(false);
+  const { events } = result;
+
+  const typeCounts = useMemo(() =>
+    Object.values(ConflictType)
+      .map(type => ({ name: type, events: events.filter(e => e.type === type).length }))
+      .filter(row => row.events > 0),
+    [events]
+  );
+  const fatalities = useMemo(() => fatalitySeries(events), [events]);
+  const comparison = useMemo(() => comparePeriods(events), [events]);
+  const totalFatalities = events.reduce((acc, e) => acc + e.fatalities, 0);
+
+  // Print once the map outlines are in; the dialog blocks until closed
+  useEffect(() => {
+    if (!mapReady) return;
+    const handleAfterPrint = () => onDone();
+    window.addEventListener('afterprint', handleAfterPrint, { once: true });
+    const frame = requestAnimationFrame(() => window.print());
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, [mapReady, onDone]);
+
+  return createPortal(
+    <div className="print-brief hidden print:block bg-white text-zinc-900 p-8 text-xs font-sans">
+      <header className="flex items-end justify-between border-b-2 border-zinc-900 pb-2 mb-4">
+        <div>
+          <h1 className="text-xl font-bold tracking-tight">GeoConflict Brief</h1>
+          <p className="text-zinc-600">{query}</p>
+        </div>
+        <div className="text-right text-[10px] text-zinc-500">
+          <p>Generated {new Date().toLocaleString()}</p>
+          <p>{attribution}</p>
+        </div>
+      </header>
+
+      <section className="grid grid-cols-3 gap-4 mb-4">
+        <div className="col-span-2">
+          <h2 className="font-bold uppercase tracking-wider text-[10px] text-zinc-500 mb-1">
+            Executive Summary · Trend: <span className="text-zinc-900">{result.trend}</span>
+          </h2>
+          <p className="leading-relaxed">{result.summary}</p>
+        </div>
+        <div>
+          <h2 className="font-bold uppercase tracking-wider text-[10px] text-zinc-500 mb-1">Key Actors</h2>
+          <ul className="list-disc pl-4">
+            {result.keyActors.map(actor => <li key={actor}>{actor}</li>)}
+          </ul>
+        </div>
+      </section>
+
+      <section className="grid grid-cols-4 gap-2 mb-4">
+        <div className="border border-zinc-300 rounded p-2">
+          <p className="text-[10px] text-zinc-500 uppercase">Events</p>
+          <p className="text-lg font-bold">{events.length}</p>
+        </div>
+        <div className="border border-zinc-300 rounded p-2">
+          <p className="text-[10px] text-zinc-500 uppercase">Fatalities</p>
+          <p className="text-lg font-bold">{totalFatalities}</p>
+        </div>
+        <div className="border border-zinc-300 rounded p-2">
+          <p className="text-[10px] text-zinc-500 uppercase">Events vs prior {comparison?.days ?? '-'}d</p>
+          <p className="text-lg font-bold">{formatChange(comparison?.eventChange ?? null)}</p>
+        </div>
+        <div className="border border-zinc-300 rounded p-2">
+          <p className="text-[10px] text-zinc-500 uppercase">Fatalities vs prior {comparison?.days ?? '-'}d</p>
+          <p className="text-lg font-bold">{formatChange(comparison?.fatalityChange ?? null)}</p>
+        </div>
+      </section>
+
+      <section className="mb-4 border border-zinc-300">
+        <StaticMapSnapshot events={events} width={720} height={300} onReady={() => setMapReady(true)} />
+      </section>
+
+      <section className="grid grid-cols-2 gap-4">
+        <div>
+          <h2 className="font-bold uppercase tracking-wider text-[10px] text-zinc-500 mb-1">Events by Type</h2>
+          <BarChart width={350} height={180} data={typeCounts} layout="vertical" margin={{ left: 60 }}>
+            <XAxis type="number" fontSize={9} allowDecimals={false} />
+            <YAxis type="category" dataKey="name" fontSize={9} width={100} />
+            <Bar dataKey="events" isAnimationActive={false}>
+              {typeCounts.map(row => <Cell key={row.name} fill={TYPE_COLORS[row.name]} />)}
+            </Bar>
+          </BarChart>
+        </div>
+        <div>
+          <h2 className="font-bold uppercase tracking-wider text-[10px] text-zinc-500 mb-1">Fatalities over Time</h2>
+          <LineChart width={350} height={180} data={fatalities}>
+            <CartesianGrid stroke="#e4e4e7" vertical={false} />
+            <XAxis dataKey="label" fontSize={9} />
+            <YAxis fontSize={9} />
+            <Line dataKey="fatalities" stroke="#a1a1aa" dot={false} isAnimationActive={false} />
+            <Line dataKey="rollingAverage" stroke="#dc2626" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </div>
+      </section>
+    </div>,
+    document.body
+  );
+};
+
+export default PrintBrief;
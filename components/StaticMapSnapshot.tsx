@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ConflictEvent } from '../types';
+import { BoundaryCollection, loadBoundaries } from '../services/boundaries';
+import { TYPE_COLORS } from '../constants';
+
+interface StaticMapSnapshotProps {
+  events: ConflictEvent[];
+  width: number;
+  height: number;
+  /** Called once boundaries have loaded (or failed), i.e. when the snapshot is final */
+  onReady?: () => void;
+}
+
+// Minimum extent in degrees, so a single-city query still shows context
+const MIN_SPAN = 4;
+
+/**
+ * Tile-free SVG rendering of the current events over country outlines.
+ * Used where a live Leaflet map can't be captured, such as printed briefs.
+ */
+const StaticMapSnapshot: React.FC<StaticMapSnapshotProps> = ({ events, width, height, onReady }) => {
+  const [boundaries, setBoundaries] = useState<BoundaryCollection | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBoundaries('country')
+      .then(data => { if (!cancelled) setBoundaries(data); })
+      .catch(() => undefined)
+      .finally(() => { if (!cancelled) onReady?.(); });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Equirectangular projection fitted to the events, with longitude scaled by latitude
+  const project = useMemo(() => {
+    // One reduce pass rather than spreading: ACLED pulls and imports can exceed the argument limit
+    const bounds = events.reduce(
+      (b, e) => ({
+        south: Math.min(b.south, e.latitude),
+        north: Math.max(b.north, e.latitude),
+        west: Math.min(b.west, e.longitude),
+        east: Math.max(b.east, e.longitude),
+      }),
+      { south: Infinity, north: -Infinity, west: Infinity, east: -Infinity }
+    );
+    const midLat = events.length ? (bounds.south + bounds.north) / 2 : 0;
+    const midLng = events.length ? (bounds.west + bounds.east) / 2 : 0;
+    const cos = Math.cos((midLat * Math.PI) / 180);
+
+    const latSpan = Math.max(MIN_SPAN, events.length ? (bounds.north - bounds.south) * 1.3 : 140);
+    const lngSpan = Math.max(MIN_SPAN, events.length ? (bounds.east - bounds.west) * 1.3 : 360);
+    const scale = Math.min(width / (lngSpan * cos), height / latSpan);
+
+    return (lng: number, lat: number): [number, number] => [
+      width / 2 + (lng - midLng) * cos * scale,
+      height / 2 - (lat - midLat) * scale,
+    ];
+  }, [events, width, height]);
+
+  const paths = useMemo(() => {
+    if (!boundaries) return [];
+    return boundaries.features.map(feature => {
+      const polygons = feature.geometry.type === 'Polygon'
+        ? [feature.geometry.coordinates as [number, number][][]]
+        : feature.geometry.coordinates as [number, number][][][];
+      return polygons
+        .flatMap(rings => rings.map(ring =>
+          ring.map(([lng, lat], i) => {
+            const [x, y] = project(lng, lat);
+            return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+          }).join('') + 'Z'
+        ))
+        .join('');
+    });
+  }, [boundaries, project]);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} className="block">
+      <rect width={width} height={height} fill="#f4f4f5" />
+      {paths.map((d, i) => (
+        <path key={i} d={d} fill="#e4e4e7" stroke="#a1a1aa" strokeWidth={0.6} fillRule="evenodd" />
+      ))}
+      {events.map(e => {
+        const [x, y] = project(e.longitude, e.latitude);
+        return (
+          <circle
+            key={e.id}
+            cx={x}
+            cy={y}
+            r={3 + Math.min(6, Math.sqrt(e.fatalities))}
+            fill={TYPE_COLORS[e.type]}
+            fillOpacity={0.75}
+            stroke="#fff"
+            strokeWidth={0.8}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default StaticMapSnapshot;
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, SkipBack } from 'lucide-react';
+import { DayRange, formatDay } from '../services/dates';
+
+interface TimelineProps {
+  bounds: DayRange;
+  value: DayRange;
+  onChange: (value: DayRange) => void;
+  /** Per-day event counts, drawn as a histogram behind the track */
+  counts?: Map<number, number>;
+}
+
+type DragMode = 'start' | 'end' | 'move';
+
+const STEPS = { day: 1, week: 7 } as const;
+const TICK_MS = 700;
+// Window played when the current one already spans every day
+const PLAY_WINDOW_DAYS = STEPS.week;
+
+const Timeline: React.FC<TimelineProps> = ({ bounds, value, onChange, counts }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; originDay: number; origin: DayRange } | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [step, setStep] = useState<keyof typeof STEPS>('day');
+
+  const span = Math.max(bounds.end - bounds.start, 1);
+  const toPercent = (day: number) => ((day - bounds.start) / span) * 100;
+
+  // Keep latest values available to the document-level drag listeners
+  const latest = useRef({ value, onChange, bounds });
+  latest.current = { value, onChange, bounds };
+
+  const dayAt = (clientX: number) => {
+    const { bounds } = latest.current;
+    const rect = trackRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.round(bounds.start + ratio * Math.max(bounds.end - bounds.start, 1));
+  };
+
+  useEffect(() => {
+    const handleMove = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !trackRef.current) return;
+      const { onChange, bounds } = latest.current;
+      const day = dayAt(e.clientX);
+
+      if (drag.mode === 'start') {
+        onChange({ start: Math.min(day, drag.origin.end), end: drag.origin.end });
+      } else if (drag.mode === 'end') {
+        onChange({ start: drag.origin.start, end: Math.max(day, drag.origin.start) });
+      } else {
+        const length = drag.origin.end - drag.origin.start;
+        const start = Math.min(Math.max(drag.origin.start + day - drag.originDay, bounds.start), bounds.end - length);
+        onChange({ start, end: start + length });
+      }
+    };
+    const handleUp = () => { dragRef.current = null; };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Playback: slide the window forward by one step per tick
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      const { value, onChange, bounds } = latest.current;
+      const length = value.end - value.start;
+      const end = Math.min(value.end + STEPS[step], bounds.end);
+      onChange({ start: end - length, end });
+      if (end >= bounds.end) setIsPlaying(false);
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, step]);
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsPlaying(false);
+    dragRef.current = { mode, originDay: dayAt(e.clientX), origin: value };
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // A window over the whole range has nowhere to slide, so play a week at a time instead;
+    // otherwise restart from the beginning if the window is already at the end
+    if (value.start <= bounds.start && value.end >= bounds.end) {
+      onChange({ start: bounds.start, end: bounds.start + Math.min(PLAY_WINDOW_DAYS, span) });
+    } else if (value.end >= bounds.end) {
+      const length = Math.min(value.end - value.start, span);
+      onChange({ start: bounds.start, end: bounds.start + length });
+    }
+    setIsPlaying(true);
+  };
+
+  const rewind = () => {
+    setIsPlaying(false);
+    const length = value.end - value.start;
+    onChange({ start: bounds.start, end: bounds.start + length });
+  };
+
+  const maxCount = counts ? Math.max(1, ...counts.values()) : 1;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-3 bg-zinc-950 border-t border-zinc-800">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={rewind}
+          className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800"
+          title="Rewind"
+        >
+          <SkipBack size={14} />
+        </button>
+        <button
+          onClick={togglePlay}
+          className="p-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <select
+          value={step}
+          onChange={(e) => setStep(e.target.value as keyof typeof STEPS)}
+          className="ml-1 bg-zinc-900 border border-zinc-800 rounded px-1.5 py-1 text-[10px] text-zinc-400 focus:outline-none"
+        >
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+        </select>
+      </div>
+
+      <span className="text-[10px] font-mono text-zinc-500 w-16 text-right">{formatDay(bounds.start)}</span>
+
+      <div ref={trackRef} className="relative flex-1 h-8 select-none touch-none">
+        {/* Histogram */}
+        {counts && (
+          <div className="absolute inset-0">
+            {[...counts.entries()].map(([day, count]) => (
+              <div
+                key={day}
+                className="absolute bottom-0 w-[2px] bg-zinc-700"
+                style={{ left: `${toPercent(day)}%`, height: `${(count / maxCount) * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
+        <div className="absolute inset-x-0 top-1/2 h-px bg-zinc-800" />
+
+        {/* Selected window */}
+        <div
+          onPointerDown={startDrag('move')}
+          className="absolute top-0 bottom-0 bg-indigo-500/20 border-x-2 border-indigo-500 cursor-grab active:cursor-grabbing"
+          style={{ left: `${toPercent(value.start)}%`, width: `${Math.max(toPercent(value.end) - toPercent(value.start), 0.5)}%` }}
+        >
+          <div onPointerDown={startDrag('start')} className="absolute -left-1.5 top-0 bottom-0 w-3 cursor-ew-resize" />
+          <div onPointerDown={startDrag('end')} className="absolute -right-1.5 top-0 bottom-0 w-3 cursor-ew-resize" />
+        </div>
+      </div>
+
+      <span className="text-[10px] font-mono text-zinc-500 w-16">{formatDay(bounds.end)}</span>
+
+      <span className="text-[10px] font-mono text-indigo-300 whitespace-nowrap">
+        {formatDay(value.start)} – {formatDay(value.end)}
+      </span>
+    </div>
+  );
+};
+
+export default Timeline;
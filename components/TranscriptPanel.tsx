@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Keyboard, Paperclip, Send } from 'lucide-react';
+import { LiveTranscript, TranscriptTurn } from '../types';
+import { LiveReplyMode } from '../services/liveClient';
+
+export type TranscriptFormat = 'md' | 'json';
+
+interface TranscriptPanelProps {
+  turns: TranscriptTurn[];
+  onDownload: (format: TranscriptFormat) => void;
+  // Name of the analysis the session would be attached to, if any
+  attachTo: string | null;
+  onAttach: () => void;
+  attached: LiveTranscript[];
+  onDownloadAttached: (transcript: LiveTranscript, format: TranscriptFormat) => void;
+  // Typed channel; returns false if the text could not be sent
+  canSend: boolean;
+  onSendText: (text: string) => boolean;
+  replyMode: LiveReplyMode;
+  onReplyModeChange: (mode: LiveReplyMode) => void;
+}
+
+const REPLY_MODES: { value: LiveReplyMode; label: string }[] = [
+  { value: 'audio', label: 'Audio' },
+  { value: 'text', label: 'Text' },
+  { value: 'both', label: 'Both' },
+];
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  turns, onDownload, attachTo, onAttach, attached, onDownloadAttached, canSend, onSendText, replyMode, onReplyModeChange,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onSendText(draft)) setDraft('');
+  };
+
+  // Follow the conversation as it streams in
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [turns]);
+
+  const hasTurns = turns.length > 0;
+
+  return (
+    <div className="border-t border-zinc-800 bg-zinc-950">
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-900">
+        <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-wider">Transcript</span>
+        <div className="ml-auto flex items-center gap-3 text-[10px] font-mono">
+          <button onClick={() => onDownload('md')} disabled={!hasTurns} className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300 disabled:opacity-40 disabled:hover:text-zinc-500">
+            <Download size={10} /> MD
+          </button>
+          <button onClick={() => onDownload('json')} disabled={!hasTurns} className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300 disabled:opacity-40 disabled:hover:text-zinc-500">
+            <Download size={10} /> JSON
+          </button>
+          <button
+            onClick={onAttach}
+            disabled={!hasTurns || !attachTo}
+            title={attachTo ? `Save with "${attachTo}" in history` : 'No saved analysis to attach to'}
+            className="flex items-center gap-1 text-zinc-500 hover:text-indigo-400 disabled:opacity-40 disabled:hover:text-zinc-500"
+          >
+            <Paperclip size={10} /> Attach
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="h-48 overflow-y-auto px-4 py-3 space-y-2 custom-scrollbar">
+        {!hasTurns && (
+          <p className="text-[10px] text-zinc-600 font-mono">NO TRAFFIC // TRANSCRIPT APPEARS HERE ONCE THE LINK IS OPEN</p>
+        )}
+        {turns.map(turn => (
+          <div key={turn.id} className="text-xs leading-relaxed">
+            <div className="flex items-center gap-2 text-[10px] font-mono">
+              <span className="text-zinc-600">{formatTime(turn.startedAt)}</span>
+              <span className={turn.speaker === 'overwatch' ? 'text-red-400' : 'text-emerald-400'}>
+                {turn.speaker === 'overwatch' ? 'OVERWATCH' : 'OPERATOR'}
+              </span>
+              {turn.via === 'text' && <span className="text-zinc-500">// TEXT</span>}
+              {turn.interrupted && <span className="text-amber-500">// INTERRUPTED</span>}
+            </div>
+            {turn.speaker === 'overwatch' && replyMode === 'audio' ? (
+              // Audio-only replies stay in the saved transcript but out of the live view
+              <p className="text-zinc-600 italic">Voice reply</p>
+            ) : (
+              <p className={`text-zinc-300 ${turn.complete ? '' : 'opacity-70'}`}>{turn.text.trim() || '…'}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 px-4 py-2 border-t border-zinc-900">
+        <Keyboard size={12} className="text-zinc-600 shrink-0" />
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={!canSend}
+          placeholder={canSend ? 'Type to Overwatch…' : 'Open the link to type'}
+          className="flex-1 min-w-0 bg-transparent text-xs text-zinc-200 placeholder-zinc-600 focus:outline-none disabled:opacity-50"
+        />
+        <div className="flex rounded border border-zinc-800 overflow-hidden shrink-0" title="How Overwatch replies">
+          {REPLY_MODES.map(m => (
+            <button
+              key={m.value}
+              type="button"
+              onClick={() => onReplyModeChange(m.value)}
+              className={`px-2 py-1 text-[10px] font-mono uppercase tracking-wider transition-colors ${
+                replyMode === m.value ? 'bg-zinc-800 text-white' : 'bg-zinc-900 text-zinc-500 hover:text-zinc-300'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={!canSend || !draft.trim()}
+          className="p-1.5 rounded text-zinc-400 hover:text-white disabled:opacity-40 disabled:hover:text-zinc-400"
+        >
+          <Send size={12} />
+        </button>
+      </form>
+
+      {attached.length > 0 && (
+        <div className="px-4 py-2 border-t border-zinc-900 space-y-1">
+          <span className="text-[10px] font-mono text-zinc-600 uppercase tracking-wider">Attached to {attachTo}</span>
+          {attached.map(t => (
+            <div key={t.id} className="flex items-center gap-3 text-[10px] font-mono text-zinc-400">
+              <span>{new Date(t.startedAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</span>
+              <span className="text-zinc-600">{t.turns.length} turns</span>
+              <button onClick={() => onDownloadAttached(t, 'md')} className="ml-auto text-zinc-500 hover:text-zinc-300">MD</button>
+              <button onClick={() => onDownloadAttached(t, 'json')} className="text-zinc-500 hover:text-zinc-300">JSON</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
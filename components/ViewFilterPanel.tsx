@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { ConflictEvent, ConflictType, ViewFilter } from '../types';
+import { TYPE_COLORS } from '../constants';
+import { EMPTY_VIEW_FILTER, countHiddenByCriterion, isViewFilterActive } from '../services/viewFilter';
+
+interface ViewFilterPanelProps {
+  // Events before the panel's own filtering, so hidden counts stay meaningful
+  events: ConflictEvent[];
+  filter: ViewFilter;
+  onChange: (filter: ViewFilter) => void;
+  visibleCount: number;
+}
+
+const inputClass = "w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-[10px] text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500";
+
+const uniqueSorted = (values: (string | undefined)[]) =>
+  [...new Set(values.filter((v): v is string => Boolean(v)))].sort((a, b) => a.localeCompare(b));
+
+const toNumber = (value: string) => value === '' ? undefined : Math.max(0, Number(value) || 0);
+
+const Section: React.FC<{ label: string; hidden: number; children: React.ReactNode }> = ({ label, hidden, children }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between text-[10px] uppercase tracking-wider">
+      <span className="text-zinc-500">{label}</span>
+      {hidden > 0 && <span className="font-mono text-amber-500/80">−{hidden}</span>}
+    </div>
+    {children}
+  </div>
+);
+
+/**
+ * Narrows the loaded events on the map, sidebar list and Analytics together.
+ * Each control shows how many events it hides on its own.
+ */
+const ViewFilterPanel: React.FC<ViewFilterPanelProps> = ({ events, filter, onChange, visibleCount }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const hidden = useMemo(() => countHiddenByCriterion(events, filter), [events, filter]);
+  const typeCounts = useMemo(() => {
+    const counts = new Map<ConflictType, number>();
+    events.forEach(e => counts.set(e.type, (counts.get(e.type) || 0) + 1));
+    return counts;
+  }, [events]);
+  const countries = useMemo(() => uniqueSorted(events.map(e => e.country)), [events]);
+  const subTypes = useMemo(() => uniqueSorted(events.map(e => e.subType)), [events]);
+  const dates = useMemo(() => events.map(e => e.date).sort(), [events]);
+
+  const update = (changes: Partial<ViewFilter>) => onChange({ ...filter, ...changes });
+
+  const toggleType = (type: ConflictType) => update({
+    hiddenTypes: filter.hiddenTypes.includes(type)
+      ? filter.hiddenTypes.filter(t => t !== type)
+      : [...filter.hiddenTypes, type],
+  });
+
+  const isActive = isViewFilterActive(filter);
+
+  return (
+    <div className="rounded-lg border border-zinc-800 bg-zinc-900/30">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-2 text-xs font-semibold text-zinc-500 uppercase tracking-wider hover:text-zinc-300">
+          <SlidersHorizontal size={12} />
+          Filters
+          <ChevronDown size={12} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        <span className={`ml-auto text-[10px] font-mono ${isActive ? 'text-indigo-400' : 'text-zinc-600'}`}>
+          {visibleCount}/{events.length}
+        </span>
+        {isActive && (
+          <button onClick={() => onChange(EMPTY_VIEW_FILTER)} title="Clear filters" className="text-zinc-500 hover:text-white">
+            <RotateCcw size={12} />
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3 border-t border-zinc-800 pt-3">
+          <Section label="Type" hidden={hidden.types}>
+            <div className="flex flex-wrap gap-1">
+              {Object.values(ConflictType).map(type => {
+                const isShown = !filter.hiddenTypes.includes(type);
+                return (
+                  <button
+                    key={type}
+                    onClick={() => toggleType(type)}
+                    className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] transition-colors ${
+                      isShown ? 'bg-zinc-900 border-zinc-700 text-zinc-200' : 'bg-transparent border-zinc-800 text-zinc-600 line-through'
+                    }`}
+                  >
+                    <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: TYPE_COLORS[type] }} />
+                    {type}
+                    <span className="font-mono text-zinc-500">{typeCounts.get(type) || 0}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </Section>
+
+          <Section label="Date range" hidden={hidden.dates}>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={filter.startDate || ''}
+                min={dates[0]}
+                max={dates[dates.length - 1]}
+                onChange={(e) => update({ startDate: e.target.value || undefined })}
+                className={inputClass}
+              />
+              <span className="text-zinc-600 text-[10px]">to</span>
+              <input
+                type="date"
+                value={filter.endDate || ''}
+                min={dates[0]}
+                max={dates[dates.length - 1]}
+                onChange={(e) => update({ endDate: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </div>
+          </Section>
+
+          <Section label="Fatalities" hidden={hidden.fatalities}>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                placeholder="Min"
+                value={filter.minFatalities ?? ''}
+                onChange={(e) => update({ minFatalities: toNumber(e.target.value) })}
+                className={inputClass}
+              />
+              <span className="text-zinc-600 text-[10px]">to</span>
+              <input
+                type="number"
+                min={0}
+                placeholder="Max"
+                value={filter.maxFatalities ?? ''}
+                onChange={(e) => update({ maxFatalities: toNumber(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </Section>
+
+          <Section label="Country" hidden={hidden.country}>
+            <select
+              value={filter.country || ''}
+              onChange={(e) => update({ country: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">Any country</option>
+              {countries.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </Section>
+
+          <Section label="Actor" hidden={hidden.actor}>
+            <input
+              type="search"
+              placeholder="Search actors…"
+              value={filter.actor}
+              onChange={(e) => update({ actor: e.target.value })}
+              className={inputClass}
+            />
+          </Section>
+
+          <Section label="Sub-type" hidden={hidden.subType}>
+            <select
+              value={filter.subType || ''}
+              onChange={(e) => update({ subType: e.target.value || undefined })}
+              disabled={subTypes.length === 0}
+              className={`${inputClass} disabled:opacity-50`}
+            >
+              <option value="">{subTypes.length ? 'Any sub-type' : 'No sub-types in this data'}</option>
+              {subTypes.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </Section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewFilterPanel;
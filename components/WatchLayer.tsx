@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Circle, CircleMarker, Polygon, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { WatchArea, WatchRule } from '../types';
+import { distanceKm } from '../services/watchlist';
+
+export type WatchDrawMode = 'polygon' | 'radius';
+
+interface WatchLayerProps {
+  rules: WatchRule[];
+  drawMode?: WatchDrawMode | null;
+  onDrawComplete?: (area: WatchArea) => void;
+  onDrawCancel?: () => void;
+}
+
+const AREA_STYLE = { color: '#f59e0b', weight: 1.5, dashArray: '6 4', fillOpacity: 0.05 }; // amber-500
+const DRAFT_STYLE = { color: '#f59e0b', weight: 2, fillOpacity: 0.15 };
+
+type LatLng = [number, number];
+
+// Double-clicks also fire two clicks; drop the repeated vertices they leave behind
+const dedupeVertices = (points: LatLng[]) =>
+  points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]);
+
+const Drawer: React.FC<{ mode: WatchDrawMode; onComplete: (area: WatchArea) => void; onCancel: () => void }> = ({ mode, onComplete, onCancel }) => {
+  const map = useMap();
+  const [points, setPoints] = useState<LatLng[]>([]);
+  const [cursor, setCursor] = useState<LatLng | null>(null);
+
+  useEffect(() => {
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    const handleKey = (e: KeyboardEvent) => e.key === 'Escape' && onCancel();
+    window.addEventListener('keydown', handleKey);
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [map, onCancel]);
+
+  useMapEvents({
+    click: (e: L.LeafletMouseEvent) => {
+      const point: LatLng = [e.latlng.lat, e.latlng.lng];
+      if (mode === 'radius' && points.length === 1) {
+        onComplete({ kind: 'radius', center: points[0], radiusKm: Math.max(1, distanceKm(points[0], point)) });
+        return;
+      }
+      setPoints(current => [...current, point]);
+    },
+    dblclick: () => {
+      if (mode !== 'polygon') return;
+      const vertices = dedupeVertices(points);
+      if (vertices.length < 3) return;
+      const ring = vertices.map(([lat, lng]): [number, number] => [lng, lat]);
+      onComplete({ kind: 'polygon', ring: [...ring, ring[0]] });
+    },
+    mousemove: (e: L.LeafletMouseEvent) => setCursor([e.latlng.lat, e.latlng.lng]),
+  });
+
+  if (mode === 'radius') {
+    if (points.length === 0) return null;
+    return (
+      <>
+        <CircleMarker center={points[0]} radius={3} pathOptions={DRAFT_STYLE} />
+        {cursor && <Circle center={points[0]} radius={distanceKm(points[0], cursor) * 1000} pathOptions={DRAFT_STYLE} />}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {points.length > 1 && <Polygon positions={points} pathOptions={{ ...DRAFT_STYLE, weight: 0 }} />}
+      {points.length > 0 && <Polyline positions={cursor ? [...points, cursor] : points} pathOptions={DRAFT_STYLE} />}
+      {points.map((p, i) => <CircleMarker key={i} center={p} radius={3} pathOptions={DRAFT_STYLE} />)}
+    </>
+  );
+};
+
+/**
+ * Outlines the drawn areas of watch rules, and handles drawing a new one
+ * when a draw mode is active.
+ */
+const WatchLayer: React.FC<WatchLayerProps> = ({ rules, drawMode, onDrawComplete, onDrawCancel }) => (
+  <>
+    {rules.filter(rule => rule.enabled).map(rule => {
+      const { area } = rule;
+      if (area.kind === 'polygon') {
+        return (
+          <Polygon key={rule.id} positions={area.ring.map(([lng, lat]) => [lat, lng] as LatLng)} pathOptions={AREA_STYLE}>
+            <Tooltip sticky>{rule.name}</Tooltip>
+          </Polygon>
+        );
+      }
+      if (area.kind === 'radius') {
+        return (
+          <Circle key={rule.id} center={area.center} radius={area.radiusKm * 1000} pathOptions={AREA_STYLE}>
+            <Tooltip sticky>{rule.name}</Tooltip>
+          </Circle>
+        );
+      }
+      return null;
+    })}
+    {drawMode && onDrawComplete && onDrawCancel && (
+      <Drawer mode={drawMode} onComplete={onDrawComplete} onCancel={onDrawCancel} />
+    )}
+  </>
+);
+
+export default WatchLayer;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Eye, EyeOff, PenTool } from 'lucide-react';
+import { ConflictType, WatchArea, WatchRule } from '../types';
+import { describeArea, describeRule } from '../services/watchlist';
+import { TYPE_COLORS } from '../constants';
+import { WatchDrawMode } from './WatchLayer';
+
+interface WatchlistPanelProps {
+  rules: WatchRule[];
+  onAdd: (rule: WatchRule) => void;
+  onToggle: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Area returned by the map after onStartDraw */
+  drawnArea: WatchArea | null;
+  drawMode: WatchDrawMode | null;
+  onStartDraw: (mode: WatchDrawMode) => void;
+}
+
+type Scope = WatchArea['kind'];
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  country: 'Country',
+  actor: 'Actor',
+  polygon: 'Drawn polygon',
+  radius: 'Radius',
+};
+
+const inputClass = "bg-zinc-900 border border-zinc-800 rounded px-1.5 py-1 text-[10px] text-zinc-200 focus:outline-none focus:border-indigo-500";
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ rules, onAdd, onToggle, onDelete, drawnArea, drawMode, onStartDraw }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<Scope>('country');
+  const [target, setTarget] = useState('');
+  const [area, setArea] = useState<WatchArea | null>(null);
+  const [metric, setMetric] = useState<WatchRule['metric']>('fatalities');
+  const [threshold, setThreshold] = useState(10);
+  const [windowDays, setWindowDays] = useState(7);
+  const [types, setTypes] = useState<ConflictType[]>([]);
+
+  // Pick up the shape the map hands back after drawing
+  useEffect(() => {
+    if (drawnArea && (drawnArea.kind === 'polygon' || drawnArea.kind === 'radius')) {
+      setScope(drawnArea.kind);
+      setArea(drawnArea);
+    }
+  }, [drawnArea]);
+
+  const resolvedArea: WatchArea | null =
+    scope === 'country' ? (target.trim() ? { kind: 'country', country: target.trim() } : null)
+    : scope === 'actor' ? (target.trim() ? { kind: 'actor', actor: target.trim() } : null)
+    : area?.kind === scope ? area : null;
+
+  const reset = () => {
+    setIsAdding(false);
+    setName('');
+    setTarget('');
+    setArea(null);
+    setTypes([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resolvedArea) return;
+    onAdd({
+      id: `watch-${Date.now()}`,
+      name: name.trim() || describeArea(resolvedArea),
+      area: resolvedArea,
+      metric,
+      threshold: Math.max(0, threshold),
+      windowDays: Math.max(1, windowDays),
+      types,
+      enabled: true,
+    });
+    reset();
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.length === 0 && !isAdding && (
+        <p className="text-[10px] text-zinc-600 italic">No watch rules yet.</p>
+      )}
+      <ul className="space-y-1">
+        {rules.map(rule => (
+          <li key={rule.id} className={`flex items-center gap-2 px-2 py-1.5 rounded border border-zinc-800 bg-zinc-900/50 text-xs ${rule.enabled ? '' : 'opacity-50'}`}>
+            <div className="flex-1 min-w-0">
+              <span className="block truncate text-zinc-300">{rule.name}</span>
+              <span className="block truncate text-[10px] text-zinc-600">{describeArea(rule.area)} · {describeRule(rule)}</span>
+            </div>
+            <button onClick={() => onToggle(rule.id)} title={rule.enabled ? 'Pause' : 'Resume'} className="text-zinc-500 hover:text-white">
+              {rule.enabled ? <Eye size={12} /> : <EyeOff size={12} />}
+            </button>
+            <button onClick={() => onDelete(rule.id)} title="Delete" className="text-zinc-500 hover:text-red-400">
+              <Trash2 size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {isAdding ? (
+        <form onSubmit={handleSubmit} className="p-2 space-y-2 rounded border border-zinc-800 bg-zinc-900/30">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Rule name" className={`w-full ${inputClass}`} />
+
+          <div className="flex gap-1.5">
+            <select value={scope} onChange={(e) => setScope(e.target.value as Scope)} className={inputClass}>
+              {(Object.keys(SCOPE_LABELS) as Scope[]).map(s => <option key={s} value={s}>{SCOPE_LABELS[s]}</option>)}
+            </select>
+            {scope === 'country' || scope === 'actor' ? (
+              <input
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={scope === 'country' ? 'e.g. Mali' : 'e.g. JNIM'}
+                className={`flex-1 min-w-0 ${inputClass}`}
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => onStartDraw(scope)}
+                disabled={drawMode !== null}
+                className="flex-1 flex items-center justify-center gap-1 px-2 py-1 border border-amber-900/60 rounded text-[10px] text-amber-300 hover:bg-amber-950/40 disabled:opacity-50"
+              >
+                <PenTool size={10} />
+                {drawMode ? 'Drawing…' : area?.kind === scope ? 'Redraw on map' : 'Draw on map'}
+              </button>
+            )}
+          </div>
+
+          <div className="flex items-center gap-1.5 text-[10px] text-zinc-400">
+            <span>More than</span>
+            <input type="number" min={0} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className={`w-12 ${inputClass}`} />
+            <select value={metric} onChange={(e) => setMetric(e.target.value as WatchRule['metric'])} className={inputClass}>
+              <option value="fatalities">fatalities</option>
+              <option value="events">events</option>
+            </select>
+            <span>in</span>
+            <input type="number" min={1} value={windowDays} onChange={(e) => setWindowDays(Number(e.target.value))} className={`w-10 ${inputClass}`} />
+            <span>days</span>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {Object.values(ConflictType).map(type => {
+              const isOn = types.includes(type);
+              return (
+                <button
+                  type="button"
+                  key={type}
+                  onClick={() => setTypes(current => isOn ? current.filter(t => t !== type) : [...current, type])}
+                  className={`px-1.5 py-0.5 rounded border text-[10px] ${isOn ? 'text-white' : 'text-zinc-500 border-zinc-800'}`}
+                  style={isOn ? { borderColor: TYPE_COLORS[type], backgroundColor: `${TYPE_COLORS[type]}33` } : undefined}
+                >
+                  {type}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-zinc-600">No type selected means any type. Use "more than 0 events" to alert on any occurrence.</p>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={reset} className="px-2 py-1 rounded text-[10px] text-zinc-400 hover:text-white">Cancel</button>
+            <button type="submit" disabled={!resolvedArea} className="px-2 py-1 bg-indigo-600 hover:bg-indigo-500 rounded text-[10px] text-white disabled:opacity-50">
+              Save rule
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-zinc-300"
+        >
+          <Plus size={12} />
+          Add watch rule
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistPanel;
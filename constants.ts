@@ -0,0 +1,11 @@
+import { ConflictType } from './types';
+
+// Shared palette for event types across the map, charts and exports
+export const TYPE_COLORS: Record<ConflictType, string> = {
+  [ConflictType.BATTLE]: '#dc2626', // red-600
+  [ConflictType.PROTEST]: '#3b82f6', // blue-500
+  [ConflictType.RIOT]: '#f97316', // orange-500
+  [ConflictType.EXPLOSION]: '#b91c1c', // red-700
+  [ConflictType.VIOLENCE_AGAINST_CIVILIANS]: '#7f1d1d', // red-900
+  [ConflictType.STRATEGIC_DEVELOPMENT]: '#10b981', // emerald-500
+};
@@ -0,0 +1,154 @@
+import { ConflictEvent, ConflictType } from "../types";
+import { ConflictDataSource, EventRequest, summarizeEvents } from "./dataSource";
+import { applyFilter } from "./filterEngine";
+import { parseCsv } from "./csv";
+import { createProvenance } from "./provenance";
+
+const ACLED_API_URL = 'https://api.acleddata.com/acled/read';
+const ACLED_API_KEY = process.env.ACLED_API_KEY as string | undefined;
+const ACLED_EMAIL = process.env.ACLED_EMAIL as string | undefined;
+
+const DEFAULT_LIMIT = 500;
+
+// Subset of the ACLED export columns we consume. The API returns every
+// value as a string; CSV exports do too.
+export interface AcledRow {
+  event_id_cnty: string;
+  event_date: string;
+  event_type: string;
+  sub_event_type?: string;
+  actor1: string;
+  actor2?: string;
+  country: string;
+  admin1?: string;
+  admin2?: string;
+  location: string;
+  latitude: string | number;
+  longitude: string | number;
+  fatalities: string | number;
+  notes?: string;
+  source?: string;
+  geo_precision?: string | number;
+}
+
+interface AcledResponse {
+  success: boolean;
+  count?: number;
+  data?: AcledRow[];
+  error?: { status: number; message: string };
+}
+
+// ACLED uses plural event type names
+const ACLED_EVENT_TYPES: Record<string, ConflictType> = {
+  'battles': ConflictType.BATTLE,
+  'protests': ConflictType.PROTEST,
+  'riots': ConflictType.RIOT,
+  'explosions/remote violence': ConflictType.EXPLOSION,
+  'violence against civilians': ConflictType.VIOLENCE_AGAINST_CIVILIANS,
+  'strategic developments': ConflictType.STRATEGIC_DEVELOPMENT,
+};
+
+export const mapAcledEventType = (eventType: string): ConflictType | null =>
+  ACLED_EVENT_TYPES[eventType.trim().toLowerCase()] ?? null;
+
+// Canonical ACLED spelling for each type, used when writing ACLED-compatible files
+export const ACLED_EVENT_TYPE_NAMES: Record<ConflictType, string> = {
+  [ConflictType.BATTLE]: 'Battles',
+  [ConflictType.PROTEST]: 'Protests',
+  [ConflictType.RIOT]: 'Riots',
+  [ConflictType.EXPLOSION]: 'Explosions/Remote violence',
+  [ConflictType.VIOLENCE_AGAINST_CIVILIANS]: 'Violence against civilians',
+  [ConflictType.STRATEGIC_DEVELOPMENT]: 'Strategic developments',
+};
+
+/**
+ * Converts one ACLED record into a ConflictEvent. Returns null for rows
+ * with an unknown event type or unusable coordinates.
+ */
+export const mapAcledRow = (row: AcledRow): ConflictEvent | null => {
+  const type = mapAcledEventType(row.event_type || '');
+  const latitude = Number(row.latitude);
+  const longitude = Number(row.longitude);
+  if (!type || !isFinite(latitude) || !isFinite(longitude)) return null;
+
+  return {
+    id: row.event_id_cnty,
+    date: row.event_date,
+    type,
+    subType: row.sub_event_type || undefined,
+    actor1: row.actor1,
+    actor2: row.actor2 || undefined,
+    country: row.country,
+    admin1: row.admin1 || undefined,
+    admin2: row.admin2 || undefined,
+    location: row.location,
+    latitude,
+    longitude,
+    fatalities: Math.max(0, Number(row.fatalities) || 0),
+    description: row.notes || `${row.sub_event_type || row.event_type} in ${row.location}`,
+    source: row.source || undefined,
+    provenance: createProvenance('acled', { recordId: row.event_id_cnty, geoPrecision: row.geo_precision }),
+  };
+};
+
+const mapRows = (rows: AcledRow[]): ConflictEvent[] =>
+  rows.map(mapAcledRow).filter((e): e is ConflictEvent => e !== null);
+
+export const parseAcledCsv = (text: string): ConflictEvent[] =>
+  mapRows(parseCsv(text) as unknown as AcledRow[]);
+
+export const parseAcledJson = (text: string): ConflictEvent[] => {
+  const body = JSON.parse(text) as AcledResponse | AcledRow[];
+  return mapRows(Array.isArray(body) ? body : body.data || []);
+};
+
+export const isAcledConfigured = () => Boolean(ACLED_API_KEY && ACLED_EMAIL);
+
+// Only country and date are pushed to the API; the rest is applied client-side
+const buildAcledUrl = (request: EventRequest) => {
+  const { countries, startDate, endDate } = request.filter;
+  const params = [
+    `key=${encodeURIComponent(ACLED_API_KEY || '')}`,
+    `email=${encodeURIComponent(ACLED_EMAIL || '')}`,
+    `limit=${request.limit ?? DEFAULT_LIMIT}`,
+  ];
+
+  // ACLED chains alternatives for the same field with ":OR:"
+  if (countries.length) {
+    params.push(countries.map(c => `country=${encodeURIComponent(c)}`).join(':OR:'));
+  }
+
+  if (startDate || endDate) {
+    const start = startDate || '1997-01-01';
+    const end = endDate || new Date().toISOString().slice(0, 10);
+    params.push(`event_date=${start}|${end}`, 'event_date_where=BETWEEN');
+  }
+
+  return `${ACLED_API_URL}?${params.join('&')}`;
+};
+
+export const fetchAcledEvents = async (request: EventRequest): Promise<ConflictEvent[]> => {
+  if (!isAcledConfigured()) {
+    throw new Error("ACLED credentials are not configured (ACLED_API_KEY, ACLED_EMAIL)");
+  }
+
+  try {
+    const response = await fetch(buildAcledUrl(request), { signal: request.signal });
+    if (!response.ok) throw new Error(`ACLED request failed with status ${response.status}`);
+
+    const body = await response.json() as AcledResponse;
+    if (!body.success) throw new Error(body.error?.message || "ACLED request was not successful");
+
+    return mapRows(body.data || []);
+  } catch (error) {
+    console.error("Error fetching ACLED events:", error);
+    throw error;
+  }
+};
+
+export const acledDataSource: ConflictDataSource = {
+  kind: 'acled',
+  label: 'ACLED',
+  attribution: 'Data: Armed Conflict Location & Event Data Project (ACLED)',
+  load: async (request) => summarizeEvents(applyFilter(await fetchAcledEvents(request), request.filter)),
+};
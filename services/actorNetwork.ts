@@ -0,0 +1,66 @@
+import { ConflictEvent, ConflictType } from "../types";
+
+export interface ActorNode {
+  id: string; // actor name
+  events: number;
+  fatalities: number;
+}
+
+export interface ActorEdge {
+  source: string;
+  target: string;
+  events: number;
+  fatalities: number;
+  dominantType: ConflictType;
+}
+
+export interface ActorNetwork {
+  nodes: ActorNode[];
+  edges: ActorEdge[];
+}
+
+const edgeKey = (a: string, b: string) => a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+
+/**
+ * Builds an undirected actor graph from actor1/actor2 pairs. Only the
+ * `maxNodes` most involved actors are kept so the layout stays legible.
+ */
+export const buildActorNetwork = (events: ConflictEvent[], maxNodes = 40): ActorNetwork => {
+  const nodes = new Map<string, ActorNode>();
+  const edges = new Map<string, { source: string; target: string; events: number; fatalities: number; types: Map<ConflictType, number> }>();
+
+  events.forEach(event => {
+    const actors = [event.actor1, event.actor2].filter((a): a is string => Boolean(a && a.trim()));
+    new Set(actors).forEach(actor => {
+      const node = nodes.get(actor) || { id: actor, events: 0, fatalities: 0 };
+      node.events++;
+      node.fatalities += event.fatalities;
+      nodes.set(actor, node);
+    });
+
+    if (actors.length === 2 && actors[0] !== actors[1]) {
+      const key = edgeKey(actors[0], actors[1]);
+      const edge = edges.get(key) || { source: actors[0], target: actors[1], events: 0, fatalities: 0, types: new Map() };
+      edge.events++;
+      edge.fatalities += event.fatalities;
+      edge.types.set(event.type, (edge.types.get(event.type) || 0) + 1);
+      edges.set(key, edge);
+    }
+  });
+
+  const kept = [...nodes.values()].sort((a, b) => b.events - a.events).slice(0, maxNodes);
+  const keptIds = new Set(kept.map(n => n.id));
+
+  return {
+    nodes: kept,
+    edges: [...edges.values()]
+      .filter(e => keptIds.has(e.source) && keptIds.has(e.target))
+      .map(({ types, ...edge }) => ({
+        ...edge,
+        dominantType: [...types.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      })),
+  };
+};
+
+export const eventsForActor = (events: ConflictEvent[], actor: string) =>
+  events.filter(e => e.actor1 === actor || e.actor2 === actor);
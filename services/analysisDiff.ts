@@ -0,0 +1,75 @@
+import { AnalysisResult, ConflictEvent, ConflictType } from "../types";
+
+export interface TypeDelta {
+  type: ConflictType;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface AnalysisDiff {
+  added: ConflictEvent[];
+  removed: ConflictEvent[];
+  retained: ConflictEvent[];
+  eventChange: number;
+  fatalityChange: number;
+  fatalitiesByType: TypeDelta[];
+  actorsAppeared: string[];
+  actorsDropped: string[];
+  trend: { from: AnalysisResult['trend']; to: AnalysisResult['trend'] };
+}
+
+// Ids are only stable within one response, so events are matched on what they describe
+const eventKey = (e: ConflictEvent) =>
+  [e.date, e.type, e.location.trim().toLowerCase(), e.actor1.trim().toLowerCase()].join('|');
+
+const sumFatalities = (events: ConflictEvent[]) => events.reduce((acc, e) => acc + e.fatalities, 0);
+
+/**
+ * Compares an earlier analysis with a later one. Events are matched as a
+ * multiset, so two identical reports on both sides count as retained twice.
+ */
+export const diffAnalyses = (before: AnalysisResult, after: AnalysisResult): AnalysisDiff => {
+  const unmatched = new Map<string, ConflictEvent[]>();
+  before.events.forEach(e => {
+    const key = eventKey(e);
+    unmatched.set(key, [...(unmatched.get(key) || []), e]);
+  });
+
+  const added: ConflictEvent[] = [];
+  const retained: ConflictEvent[] = [];
+  after.events.forEach(e => {
+    const candidates = unmatched.get(eventKey(e));
+    if (candidates && candidates.length > 0) {
+      candidates.pop();
+      retained.push(e);
+    } else {
+      added.push(e);
+    }
+  });
+  const removed = [...unmatched.values()].flat();
+
+  const fatalitiesByType = Object.values(ConflictType)
+    .map(type => {
+      const b = sumFatalities(before.events.filter(e => e.type === type));
+      const a = sumFatalities(after.events.filter(e => e.type === type));
+      return { type, before: b, after: a, change: a - b };
+    })
+    .filter(d => d.before > 0 || d.after > 0);
+
+  const lower = (actors: string[]) => new Set(actors.map(a => a.trim().toLowerCase()));
+  const beforeActors = lower(before.keyActors);
+  const afterActors = lower(after.keyActors);
+
+  return {
+    added,
+    removed,
+    retained,
+    eventChange: after.events.length - before.events.length,
+    fatalityChange: sumFatalities(after.events) - sumFatalities(before.events),
+    fatalitiesByType,
+    actorsAppeared: after.keyActors.filter(a => !beforeActors.has(a.trim().toLowerCase())),
+    actorsDropped: before.keyActors.filter(a => !afterActors.has(a.trim().toLowerCase())),
+    trend: { from: before.trend, to: after.trend },
+  };
+};
@@ -0,0 +1,181 @@
+import { bytesToBase64, createResampler, createRingBuffer, floatToInt16, int16ToFloat } from "./pcm";
+
+// Mic audio is sent in 100 ms chunks; the Live API accepts 16 kHz PCM
+const CAPTURE_RATE = 16000;
+const CAPTURE_CHUNK_MS = 100;
+// Model audio arrives as 24 kHz PCM
+const PLAYBACK_RATE = 24000;
+// Held back before playback starts, to ride out network jitter
+const PLAYBACK_PREBUFFER_MS = 150;
+const PLAYBACK_CAPACITY_SECONDS = 60;
+const STATS_INTERVAL_MS = 100;
+
+/** Posted by the capture worklet for every chunk */
+export interface CaptureMessage {
+  data: string; // base64 Int16 PCM at CAPTURE_RATE
+  level: number; // RMS of the chunk, 0..1
+  droppedChunks: number; // chunks that lost samples to ring overflow so far
+}
+
+/**
+ * Posted by the playback worklet when it starts or stops producing sound,
+ * and every STATS_INTERVAL_MS with how much audio is queued.
+ */
+export type PlaybackMessage =
+  | { type: 'state'; playing: boolean }
+  | { type: 'stats'; bufferedSeconds: number; droppedChunks: number };
+
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_RATE}`;
+
+// Runs in AudioWorkletGlobalScope, where `sampleRate` is the context's rate.
+// Resampling and encoding happen here so the main thread only forwards strings.
+const PROCESSORS = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkMs } = options.processorOptions;
+    this.resampler = createResampler(sampleRate, targetRate);
+    this.ring = createRingBuffer(targetRate * 2);
+    this.chunk = new Float32Array(Math.round(targetRate * chunkMs / 1000));
+    this.droppedChunks = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    let mono = channels[0];
+    if (channels.length > 1) {
+      mono = new Float32Array(mono.length);
+      for (const channel of channels) {
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+      }
+    }
+
+    if (this.ring.write(this.resampler.process(mono)) > 0) this.droppedChunks++;
+    while (this.ring.available() >= this.chunk.length) {
+      this.ring.read(this.chunk);
+      let energy = 0;
+      for (let i = 0; i < this.chunk.length; i++) energy += this.chunk[i] * this.chunk[i];
+      const pcm = floatToInt16(this.chunk);
+      this.port.postMessage({
+        data: bytesToBase64(new Uint8Array(pcm.buffer)),
+        level: Math.sqrt(energy / this.chunk.length),
+        droppedChunks: this.droppedChunks,
+      });
+    }
+    return true;
+  }
+}
+
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { sourceRate, prebufferMs, capacitySeconds, statsIntervalMs } = options.processorOptions;
+    this.resampler = createResampler(sourceRate, sampleRate);
+    this.ring = createRingBuffer(Math.round(sampleRate * capacitySeconds));
+    this.prebuffer = Math.round(sampleRate * prebufferMs / 1000);
+    this.playing = false;
+    this.draining = false;
+    this.droppedChunks = 0;
+    this.statsEvery = Math.round(sampleRate * statsIntervalMs / 1000);
+    this.sinceStats = 0;
+
+    this.port.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === 'chunk') {
+        const samples = this.resampler.process(int16ToFloat(new Int16Array(message.pcm)));
+        if (this.ring.write(samples) > 0) this.droppedChunks++;
+      } else if (message.type === 'flush') {
+        // End of a model turn: play out whatever is left without waiting for the prebuffer
+        this.draining = true;
+      } else if (message.type === 'clear') {
+        this.ring.clear();
+        this.resampler.reset();
+        this.draining = false;
+        this.setPlaying(false);
+      }
+    };
+  }
+
+  setPlaying(playing) {
+    if (playing === this.playing) return;
+    this.playing = playing;
+    this.port.postMessage({ type: 'state', playing });
+  }
+
+  process(inputs, outputs) {
+    const channels = outputs[0];
+    const out = channels[0];
+
+    const buffered = this.ring.available();
+    if (!this.playing && (buffered >= this.prebuffer || (this.draining && buffered > 0))) {
+      this.setPlaying(true);
+    }
+
+    if (this.playing) {
+      const count = this.ring.read(out);
+      out.fill(0, count);
+      // Underrun: go quiet and buffer up again before resuming
+      if (this.ring.available() === 0) {
+        this.draining = false;
+        this.setPlaying(false);
+      }
+    }
+
+    for (let c = 1; c < channels.length; c++) channels[c].set(out);
+
+    this.sinceStats += out.length;
+    if (this.sinceStats >= this.statsEvery) {
+      this.sinceStats = 0;
+      this.port.postMessage({ type: 'stats', bufferedSeconds: this.ring.available() / sampleRate, droppedChunks: this.droppedChunks });
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+registerProcessor('pcm-playback', PcmPlaybackProcessor);
+`;
+
+const WORKLET_SOURCE = [
+  `const createResampler = ${createResampler.toString()};`,
+  `const createRingBuffer = ${createRingBuffer.toString()};`,
+  `const floatToInt16 = ${floatToInt16.toString()};`,
+  `const int16ToFloat = ${int16ToFloat.toString()};`,
+  `const bytesToBase64 = ${bytesToBase64.toString()};`,
+  PROCESSORS,
+].join('\n');
+
+/**
+ * Registers the capture and playback processors on a context. The module is
+ * served from a Blob URL so it works without a separate build entry.
+ */
+export const loadAudioWorklets = async (ctx: AudioContext) => {
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// No outputs: the node is a sink and produces nothing audible
+export const createCaptureNode = (ctx: AudioContext) => new AudioWorkletNode(ctx, 'pcm-capture', {
+  numberOfInputs: 1,
+  numberOfOutputs: 0,
+  processorOptions: { targetRate: CAPTURE_RATE, chunkMs: CAPTURE_CHUNK_MS },
+});
+
+export const createPlaybackNode = (ctx: AudioContext) => new AudioWorkletNode(ctx, 'pcm-playback', {
+  numberOfInputs: 0,
+  numberOfOutputs: 1,
+  outputChannelCount: [1],
+  processorOptions: { sourceRate: PLAYBACK_RATE, prebufferMs: PLAYBACK_PREBUFFER_MS, capacitySeconds: PLAYBACK_CAPACITY_SECONDS, statsIntervalMs: STATS_INTERVAL_MS },
+});
+
+/** Queues one chunk of model audio; the buffer is transferred, not copied */
+export const enqueuePlayback = (node: AudioWorkletNode, pcm: Uint8Array) => {
+  const buffer = pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength);
+  node.port.postMessage({ type: 'chunk', pcm: buffer }, [buffer]);
+};
@@ -0,0 +1,159 @@
+import { BoundaryLevel, ConflictEvent } from "../types";
+
+// Minimal GeoJSON shapes; only polygons are meaningful for boundaries
+type Ring = [number, number][];
+type PolygonCoords = Ring[];
+
+export interface BoundaryGeometry {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: PolygonCoords | PolygonCoords[];
+}
+
+export interface BoundaryFeature {
+  type: 'Feature';
+  id?: string | number;
+  properties: {
+    name: string;
+    admin?: string; // parent country, for admin-1 features
+    population?: number | null;
+  };
+  geometry: BoundaryGeometry;
+}
+
+export interface BoundaryCollection {
+  type: 'FeatureCollection';
+  features: BoundaryFeature[];
+}
+
+export interface RegionStats {
+  key: string;
+  name: string;
+  eventIds: string[];
+  count: number;
+  fatalities: number;
+  population: number | null;
+  perMillion: number | null; // events per million inhabitants
+}
+
+// Served from public/boundaries; admin1.geojson is optional (see README)
+const BOUNDARY_FILES: Record<BoundaryLevel, string> = {
+  country: '/boundaries/countries.geojson',
+  admin1: '/boundaries/admin1.geojson',
+};
+
+const cache = new Map<BoundaryLevel, Promise<BoundaryCollection>>();
+const availability = new Map<BoundaryLevel, Promise<boolean>>();
+
+// The dev server answers a missing file with index.html, so a 200 alone doesn't mean it exists
+const isBoundaryResponse = (response: Response) =>
+  response.ok && !(response.headers.get('content-type') || '').includes('text/html');
+
+/**
+ * Whether the boundary file for a level is installed, so optional levels
+ * can be offered only when they will load.
+ */
+export const hasBoundaryFile = (level: BoundaryLevel): Promise<boolean> => {
+  let pending = availability.get(level);
+  if (!pending) {
+    pending = fetch(BOUNDARY_FILES[level], { method: 'HEAD' })
+      .then(isBoundaryResponse)
+      .catch(() => false);
+    availability.set(level, pending);
+  }
+  return pending;
+};
+
+export const loadBoundaries = (level: BoundaryLevel): Promise<BoundaryCollection> => {
+  let pending = cache.get(level);
+  if (!pending) {
+    pending = fetch(BOUNDARY_FILES[level]).then(response => {
+      if (!isBoundaryResponse(response)) throw new Error(`Boundary file for ${level} not available (${response.status})`);
+      return response.json() as Promise<BoundaryCollection>;
+    });
+    // Don't cache failures so a later retry can succeed
+    pending.catch(() => cache.delete(level));
+    cache.set(level, pending);
+  }
+  return pending;
+};
+
+export const featureKey = (feature: BoundaryFeature, index: number): string =>
+  String(feature.id ?? `${feature.properties.admin || ''}/${feature.properties.name}/${index}`);
+
+const polygonsOf = (geometry: BoundaryGeometry): PolygonCoords[] =>
+  geometry.type === 'Polygon'
+    ? [geometry.coordinates as PolygonCoords]
+    : geometry.coordinates as PolygonCoords[];
+
+// Ray casting on a single ring; coordinates are [lng, lat]
+const inRing = (lng: number, lat: number, ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Point-in-polygon test that honours holes (rings after the first).
+ */
+export const containsPoint = (geometry: BoundaryGeometry, lng: number, lat: number): boolean =>
+  polygonsOf(geometry).some(([outer, ...holes]) =>
+    outer && inRing(lng, lat, outer) && !holes.some(hole => inRing(lng, lat, hole))
+  );
+
+interface IndexedFeature {
+  key: string;
+  feature: BoundaryFeature;
+  bbox: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+}
+
+const indexFeatures = (collection: BoundaryCollection): IndexedFeature[] =>
+  collection.features.map((feature, index) => {
+    const bbox: IndexedFeature['bbox'] = [Infinity, Infinity, -Infinity, -Infinity];
+    polygonsOf(feature.geometry).forEach(([outer]) => outer?.forEach(([lng, lat]) => {
+      bbox[0] = Math.min(bbox[0], lng);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lng);
+      bbox[3] = Math.max(bbox[3], lat);
+    }));
+    return { key: featureKey(feature, index), feature, bbox };
+  });
+
+/**
+ * Assigns each event to the first boundary containing it and aggregates
+ * per region. Events outside every polygon (e.g. offshore) are skipped.
+ */
+export const binEvents = (events: ConflictEvent[], collection: BoundaryCollection): Map<string, RegionStats> => {
+  const indexed = indexFeatures(collection);
+  const stats = new Map<string, RegionStats>();
+
+  events.forEach(event => {
+    const { longitude: lng, latitude: lat } = event;
+    const match = indexed.find(({ bbox, feature }) =>
+      lng >= bbox[0] && lng <= bbox[2] && lat >= bbox[1] && lat <= bbox[3] &&
+      containsPoint(feature.geometry, lng, lat)
+    );
+    if (!match) return;
+
+    let region = stats.get(match.key);
+    if (!region) {
+      const population = match.feature.properties.population ?? null;
+      region = { key: match.key, name: match.feature.properties.name, eventIds: [], count: 0, fatalities: 0, population, perMillion: null };
+      stats.set(match.key, region);
+    }
+    region.eventIds.push(event.id);
+    region.count++;
+    region.fatalities += event.fatalities;
+  });
+
+  stats.forEach(region => {
+    region.perMillion = region.population ? (region.count / region.population) * 1e6 : null;
+  });
+
+  return stats;
+};
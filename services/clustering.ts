@@ -0,0 +1,47 @@
+export interface Cluster<T> {
+  key: string;
+  items: T[];
+  latitude: number;
+  longitude: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Groups items whose projected positions fall in the same square grid cell.
+ * Cheap enough to rerun on every zoom change for tens of thousands of points;
+ * the cluster position is the mean of its members.
+ */
+export const clusterByGrid = <T,>(
+  items: T[],
+  getLatLng: (item: T) => [number, number],
+  project: (latLng: [number, number]) => Point,
+  cellSize: number
+): Cluster<T>[] => {
+  const cells = new Map<string, { items: T[]; lat: number; lng: number }>();
+
+  items.forEach(item => {
+    const latLng = getLatLng(item);
+    const { x, y } = project(latLng);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+
+    const cell = cells.get(key);
+    if (cell) {
+      cell.items.push(item);
+      cell.lat += latLng[0];
+      cell.lng += latLng[1];
+    } else {
+      cells.set(key, { items: [item], lat: latLng[0], lng: latLng[1] });
+    }
+  });
+
+  return [...cells.entries()].map(([key, cell]) => ({
+    key,
+    items: cell.items,
+    latitude: cell.lat / cell.items.length,
+    longitude: cell.lng / cell.items.length,
+  }));
+};
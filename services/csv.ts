@@ -0,0 +1,91 @@
+/**
+ * Minimal RFC 4180 CSV reader. Handles quoted fields, escaped quotes ("")
+ * and CRLF line endings, which covers ACLED exports and spreadsheet dumps.
+ */
+export const parseCsvRows = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Guesses the delimiter from the header line. Spreadsheet exports in some
+ * locales use semicolons or tabs instead of commas.
+ */
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, ',');
+};
+
+/**
+ * Parses CSV text into objects keyed by the header row.
+ */
+export const parseCsv = (text: string, delimiter = ','): Record<string, string>[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''), delimiter);
+  if (!header) return [];
+
+  const keys = header.map(h => h.trim());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, i) => {
+      record[key] = (cells[i] ?? '').trim();
+    });
+    return record;
+  });
+};
+
+const escapeField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises records to CSV with the given column order.
+ */
+export const toCsv = (columns: string[], records: Record<string, unknown>[]): string =>
+  [columns, ...records.map(r => columns.map(c => r[c]))]
+    .map(row => row.map(escapeField).join(','))
+    .join('\r\n');
@@ -0,0 +1,86 @@
+import { AnalysisResult, ConflictEvent, ConflictFilter, DataSourceKind } from "../types";
+import { applyFilter } from "./filterEngine";
+import { comparePeriods } from "./timeSeries";
+
+export interface EventRequest {
+  query: string;
+  filter: ConflictFilter;
+  limit?: number;
+  signal?: AbortSignal;
+  // Partial results while loading; only streaming sources call it
+  onEvents?: (events: ConflictEvent[]) => void;
+}
+
+/**
+ * Anything that can turn an EventRequest into an AnalysisResult.
+ * Every source runs its records through `applyFilter` so results are
+ * consistent regardless of what the backend can filter on itself.
+ * Record-based sources (ACLED, local files) derive the narrative fields
+ * with `summarizeEvents`; generative sources produce them directly.
+ */
+export interface ConflictDataSource {
+  kind: DataSourceKind;
+  label: string;
+  attribution: string;
+  load(request: EventRequest): Promise<AnalysisResult>;
+}
+
+const DEFAULT_LIMIT = 500;
+
+const countBy = <T,>(items: T[], key: (item: T) => string | undefined) => {
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    const k = key(item);
+    if (k) counts.set(k, (counts.get(k) || 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
+
+/**
+ * Builds the narrative part of an AnalysisResult from raw records,
+ * for sources that have no model in the loop.
+ */
+export const summarizeEvents = (events: ConflictEvent[]): AnalysisResult => {
+  if (events.length === 0) {
+    return {
+      summary: 'No events matched this query.',
+      keyActors: [],
+      trend: 'stable',
+      events,
+    };
+  }
+
+  const dates = events.map(e => e.date).sort();
+  const countries = countBy(events, e => e.country).map(([c]) => c);
+  const [topType, topTypeCount] = countBy(events, e => e.type)[0];
+  const actors = countBy(events.flatMap(e => [e.actor1, e.actor2]), a => a).map(([a]) => a);
+  const fatalities = events.reduce((acc, e) => acc + e.fatalities, 0);
+
+  const countryText = countries.length > 3
+    ? `${countries.slice(0, 3).join(', ')} and ${countries.length - 3} other countries`
+    : countries.join(', ');
+
+  return {
+    summary: `${events.length} events recorded in ${countryText} between ${dates[0]} and ${dates[dates.length - 1]}, ` +
+      `with ${fatalities} reported fatalities. The most common event type was ${topType} (${topTypeCount} events)` +
+      (actors.length ? `, and ${actors[0]} was the most active actor.` : '.'),
+    keyActors: actors.slice(0, 8),
+    trend: comparePeriods(events)?.trend ?? 'stable',
+    events,
+  };
+};
+
+/**
+ * In-memory source over a fixed set of events. Used for fixtures and
+ * anywhere the records are already on the client.
+ */
+export const createLocalDataSource = (
+  events: ConflictEvent[],
+  label = 'Local dataset'
+): ConflictDataSource => ({
+  kind: 'local',
+  label,
+  attribution: `${label} (${events.length} records)`,
+  load: async (request) =>
+    summarizeEvents(applyFilter(events, request.filter).slice(0, request.limit ?? DEFAULT_LIMIT)),
+});
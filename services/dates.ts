@@ -0,0 +1,28 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days since the Unix epoch for a YYYY-MM-DD date, read as UTC so
+ * results don't shift with the viewer's timezone. NaN if unreadable.
+ */
+export const toDayNumber = (date: string): number => Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+
+export const fromDayNumber = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+// Short label for axes and sliders, e.g. "12 Mar 24"
+export const formatDay = (day: number): string =>
+  new Date(day * DAY_MS).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+export interface DayRange {
+  start: number;
+  end: number; // inclusive
+}
+
+export const eventDayRange = (dates: string[]): DayRange | null => {
+  const days = dates.map(toDayNumber).filter(d => !isNaN(d));
+  if (days.length === 0) return null;
+  // reduce rather than spread: ACLED pulls can exceed the argument limit
+  return {
+    start: days.reduce((a, b) => Math.min(a, b)),
+    end: days.reduce((a, b) => Math.max(a, b)),
+  };
+};
@@ -0,0 +1,123 @@
+import { AnalysisResult, ConflictEvent, ConflictType } from "../types";
+import { TYPE_COLORS } from "../constants";
+import { ACLED_EVENT_TYPE_NAMES } from "./acledClient";
+import { toCsv } from "./csv";
+
+// Column order follows ACLED's own export so files round-trip through their tooling
+const ACLED_COLUMNS = [
+  'event_id_cnty', 'event_date', 'year', 'event_type', 'sub_event_type',
+  'actor1', 'actor2', 'country', 'admin1', 'admin2', 'location',
+  'latitude', 'longitude', 'source', 'notes', 'fatalities',
+];
+
+export const toAcledCsv = (events: ConflictEvent[]): string =>
+  toCsv(ACLED_COLUMNS, events.map(e => ({
+    event_id_cnty: e.id,
+    event_date: e.date,
+    year: e.date.slice(0, 4),
+    event_type: ACLED_EVENT_TYPE_NAMES[e.type] || e.type,
+    sub_event_type: e.subType,
+    actor1: e.actor1,
+    actor2: e.actor2,
+    country: e.country,
+    admin1: e.admin1,
+    admin2: e.admin2,
+    location: e.location,
+    latitude: e.latitude,
+    longitude: e.longitude,
+    source: e.source,
+    notes: e.description,
+    fatalities: e.fatalities,
+  })));
+
+/**
+ * GeoJSON FeatureCollection with simplestyle marker properties, so viewers
+ * like geojson.io colour points by event type.
+ */
+export const toGeoJson = (result: AnalysisResult): string => JSON.stringify({
+  type: 'FeatureCollection',
+  properties: {
+    summary: result.summary,
+    trend: result.trend,
+    keyActors: result.keyActors,
+  },
+  features: result.events.map(e => {
+    const { latitude, longitude, ...properties } = e;
+    return {
+      type: 'Feature',
+      id: e.id,
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      properties: {
+        ...properties,
+        'marker-color': TYPE_COLORS[e.type],
+        'marker-size': e.fatalities >= 10 ? 'large' : e.fatalities > 0 ? 'medium' : 'small',
+      },
+    };
+  }),
+}, null, 2);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// KML colours are aabbggrr
+const toKmlColor = (hex: string) => `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+
+const styleId = (type: ConflictType) => `type-${type.toLowerCase().replace(/[^a-z]+/g, '-')}`;
+
+export const toKml = (result: AnalysisResult, name: string): string => {
+  const styles = Object.values(ConflictType).map(type => `
+    <Style id="${styleId(type)}">
+      <IconStyle>
+        <color>${toKmlColor(TYPE_COLORS[type])}</color>
+        <scale>1.1</scale>
+        <Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon>
+      </IconStyle>
+    </Style>`).join('');
+
+  const placemarks = result.events.map(e => `
+    <Placemark>
+      <name>${escapeXml(`${e.type}: ${e.location}`)}</name>
+      <TimeStamp><when>${e.date}</when></TimeStamp>
+      <styleUrl>#${styleId(e.type)}</styleUrl>
+      <description>${escapeXml(e.description)}</description>
+      <ExtendedData>
+        <Data name="id"><value>${escapeXml(e.id)}</value></Data>
+        <Data name="actor1"><value>${escapeXml(e.actor1)}</value></Data>
+        <Data name="actor2"><value>${escapeXml(e.actor2 || '')}</value></Data>
+        <Data name="country"><value>${escapeXml(e.country)}</value></Data>
+        <Data name="fatalities"><value>${e.fatalities}</value></Data>
+        <Data name="source"><value>${escapeXml(e.source || '')}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${e.longitude},${e.latitude},0</coordinates></Point>
+    </Placemark>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <description>${escapeXml(result.summary)}</description>${styles}${placemarks}
+  </Document>
+</kml>
+`;
+};
+
+/**
+ * Saves text as a file through a temporary object URL.
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// e.g. "Cartel violence in Mexico" -> "cartel-violence-in-mexico-2026-10-19"
+export const exportFilename = (query: string, extension: string) => {
+  const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 48) || 'analysis';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
@@ -0,0 +1,56 @@
+import { ConflictEvent, ConflictFilter } from "../types";
+
+export const EMPTY_FILTER: ConflictFilter = {
+  countries: [],
+  adminRegions: [],
+  types: [],
+  actors: [],
+  minFatalities: 0,
+};
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+export const matchesFilter = (event: ConflictEvent, filter: ConflictFilter): boolean => {
+  if (filter.countries.length && !filter.countries.some(c => normalize(c) === normalize(event.country))) {
+    return false;
+  }
+
+  if (filter.adminRegions.length) {
+    const areas = [event.admin1, event.admin2, event.location].map(normalize);
+    if (!filter.adminRegions.some(r => areas.includes(normalize(r)))) return false;
+  }
+
+  // ISO dates compare correctly as strings
+  if (filter.startDate && event.date < filter.startDate) return false;
+  if (filter.endDate && event.date > filter.endDate) return false;
+
+  if (filter.types.length && !filter.types.includes(event.type)) return false;
+
+  if (filter.actors.length) {
+    const actors = [event.actor1, event.actor2].map(normalize);
+    if (!filter.actors.some(a => actors.some(actor => actor.includes(normalize(a))))) return false;
+  }
+
+  return event.fatalities >= filter.minFatalities;
+};
+
+export const applyFilter = (events: ConflictEvent[], filter: ConflictFilter): ConflictEvent[] =>
+  events.filter(e => matchesFilter(e, filter));
+
+export const isEmptyFilter = (filter: ConflictFilter) =>
+  !filter.countries.length && !filter.adminRegions.length && !filter.types.length &&
+  !filter.actors.length && !filter.startDate && !filter.endDate && filter.minFatalities <= 0;
+
+/**
+ * Plain-English rendering of a filter, used in prompts.
+ */
+export const describeFilter = (filter: ConflictFilter): string => {
+  const parts: string[] = [];
+  if (filter.countries.length) parts.push(`countries: ${filter.countries.join(', ')}`);
+  if (filter.adminRegions.length) parts.push(`regions: ${filter.adminRegions.join(', ')}`);
+  if (filter.startDate || filter.endDate) parts.push(`dates: ${filter.startDate || 'any'} to ${filter.endDate || 'present'}`);
+  if (filter.types.length) parts.push(`event types: ${filter.types.join(', ')}`);
+  if (filter.actors.length) parts.push(`actors: ${filter.actors.join(', ')}`);
+  if (filter.minFatalities > 0) parts.push(`at least ${filter.minFatalities} fatalities per event`);
+  return parts.length ? parts.join('; ') : 'no constraints';
+};
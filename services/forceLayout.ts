@@ -0,0 +1,94 @@
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  pinned?: boolean;
+}
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  repulsion?: number;
+  linkDistance?: number;
+}
+
+/**
+ * Places nodes on a circle around the centre; a deterministic start keeps
+ * the graph from jumping around between renders of the same data.
+ */
+export const initialLayout = (ids: string[], { width, height }: LayoutOptions): LayoutNode[] => {
+  const radius = Math.min(width, height) * 0.35;
+  return ids.map((id, i) => {
+    const angle = (i / Math.max(ids.length, 1)) * Math.PI * 2;
+    return { id, x: width / 2 + Math.cos(angle) * radius, y: height / 2 + Math.sin(angle) * radius, vx: 0, vy: 0 };
+  });
+};
+
+/**
+ * Advances a simple force simulation by one tick: pairwise repulsion,
+ * springs along links (stronger for heavier links) and a pull to the centre.
+ * `alpha` scales the step and should decay towards zero.
+ */
+export const stepLayout = (nodes: LayoutNode[], links: LayoutLink[], options: LayoutOptions, alpha: number) => {
+  const { width, height, repulsion = 2500, linkDistance = 90 } = options;
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      let distSq = dx * dx + dy * dy;
+      if (distSq < 0.01) {
+        dx = Math.random() - 0.5;
+        dy = Math.random() - 0.5;
+        distSq = 0.01;
+      }
+      const force = (repulsion / distSq) * alpha;
+      const dist = Math.sqrt(distSq);
+      a.vx -= (dx / dist) * force;
+      a.vy -= (dy / dist) * force;
+      b.vx += (dx / dist) * force;
+      b.vy += (dy / dist) * force;
+    }
+  }
+
+  const maxWeight = links.reduce((max, l) => Math.max(max, l.weight), 1);
+  links.forEach(link => {
+    const a = byId.get(link.source);
+    const b = byId.get(link.target);
+    if (!a || !b) return;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+    const strength = 0.05 + 0.15 * (link.weight / maxWeight);
+    const force = (dist - linkDistance) * strength * alpha;
+    a.vx += (dx / dist) * force;
+    a.vy += (dy / dist) * force;
+    b.vx -= (dx / dist) * force;
+    b.vy -= (dy / dist) * force;
+  });
+
+  nodes.forEach(node => {
+    if (node.pinned) {
+      node.vx = 0;
+      node.vy = 0;
+      return;
+    }
+    node.vx += (width / 2 - node.x) * 0.01 * alpha;
+    node.vy += (height / 2 - node.y) * 0.01 * alpha;
+    node.vx *= 0.6;
+    node.vy *= 0.6;
+    node.x = Math.min(width - 20, Math.max(20, node.x + node.vx));
+    node.y = Math.min(height - 20, Math.max(20, node.y + node.vy));
+  });
+};
@@ -1,5 +1,9 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ConflictEvent, AnalysisResult, ConflictType } from "../types";
+import { ConflictEvent, AnalysisResult, ConflictType, ConflictFilter } from "../types";
+import { ConflictDataSource } from "./dataSource";
+import { EMPTY_FILTER, applyFilter, describeFilter, isEmptyFilter } from "./filterEngine";
+import { validateAnalysisResult, validateEvents } from "./validation";
+import { createJsonArrayStream } from "./jsonStream";
 
 // Initialize Gemini AI client
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -52,44 +56,223 @@ const ANALYSIS_SCHEMA: Schema = {
           actor1: { type: Type.STRING, description: "Primary actor" },
           actor2: { type: Type.STRING, description: "Secondary actor (target or opponent)" },
           country: { type: Type.STRING },
+          admin1: { type: Type.STRING, description: "First-level administrative area (state, province or region) containing the location" },
+          admin2: { type: Type.STRING, description: "Second-level administrative area (district or county), if known" },
           location: { type: Type.STRING, description: "City or specific area name" },
           latitude: { type: Type.NUMBER },
           longitude: { type: Type.NUMBER },
           fatalities: { type: Type.NUMBER, description: "Number of reported fatalities (can be 0)" },
           description: { type: Type.STRING, description: "Brief description of what happened" },
-          source: { type: Type.STRING, description: "Likely source (e.g., Local Media, NGO)" }
+          source: { type: Type.STRING, description: "Likely source (e.g., Local Media, NGO)" },
+          geoPrecision: {
+            type: Type.STRING,
+            enum: ["exact", "approximate", "region"],
+            description: "How closely the coordinates match the location: the place itself, near it, or only its wider region"
+          },
+          confidence: { type: Type.NUMBER, description: "0-1, how representative this event is of reported activity in the area" }
         },
         required: ["id", "date", "type", "actor1", "country", "location", "latitude", "longitude", "fatalities", "description"]
       }
     }
   },
-  required: ["summary", "trend", "keyActors", "events"]
+  required: ["summary", "trend", "keyActors", "events"],
+  // Events first, so they can be plotted while the narrative is still being written
+  propertyOrdering: ["events", "summary", "trend", "keyActors"],
+};
+
+const FILTER_SYSTEM_INSTRUCTION = `
+You translate analyst questions about armed conflict and political violence into structured ACLED-style filters.
+Only fill in constraints the question states or clearly implies. Leave everything else empty.
+Use English country names as ACLED spells them (e.g. "Democratic Republic of Congo", "Myanmar").
+For regions spanning several countries (e.g. "Sahel"), list the member countries.
+Output strict JSON.
+`;
+
+const FILTER_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    countries: { type: Type.ARRAY, items: { type: Type.STRING } },
+    adminRegions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "First or second level administrative areas (states, provinces, districts)."
+    },
+    startDate: { type: Type.STRING, description: "YYYY-MM-DD, or empty string if unbounded" },
+    endDate: { type: Type.STRING, description: "YYYY-MM-DD, or empty string if unbounded" },
+    types: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, enum: Object.values(ConflictType) }
+    },
+    actors: { type: Type.ARRAY, items: { type: Type.STRING } },
+    minFatalities: { type: Type.NUMBER, description: "Minimum fatalities per event (0 if not specified)" }
+  },
+  required: ["countries", "adminRegions", "startDate", "endDate", "types", "actors", "minFatalities"]
+};
+
+/**
+ * Turns a free-text query into a ConflictFilter. The model only interprets
+ * the question; matching events is done deterministically by `applyFilter`.
+ */
+export const translateQuery = async (query: string): Promise<ConflictFilter> => {
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `Today is ${today}. Translate this query into a filter: "${query}"`,
+      config: {
+        systemInstruction: FILTER_SYSTEM_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: FILTER_SCHEMA,
+        temperature: 0,
+      },
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    const raw = JSON.parse(text);
+    const validTypes = Object.values(ConflictType) as string[];
+    return {
+      ...EMPTY_FILTER,
+      countries: raw.countries || [],
+      adminRegions: raw.adminRegions || [],
+      startDate: raw.startDate || undefined,
+      endDate: raw.endDate || undefined,
+      types: (raw.types || []).filter((t: string) => validTypes.includes(t)),
+      actors: raw.actors || [],
+      minFatalities: Math.max(0, Number(raw.minFatalities) || 0),
+    };
+  } catch (error) {
+    console.error("Error translating query:", error);
+    throw error;
+  }
 };
 
-export const analyzeConflicts = async (query: string): Promise<AnalysisResult> => {
+export interface AnalysisStreamOptions {
+  signal?: AbortSignal;
+  // Called with every validated event so far, each time another one arrives
+  onEvents?: (events: ConflictEvent[]) => void;
+}
+
+/**
+ * Streams the analysis and reports events as soon as each one is complete.
+ * Ids match the final result, since both go through `validateEvents` in order.
+ */
+export const analyzeConflicts = async (
+  query: string,
+  filter: ConflictFilter = EMPTY_FILTER,
+  { signal, onEvents }: AnalysisStreamOptions = {}
+): Promise<AnalysisResult> => {
   try {
     const model = "gemini-2.5-flash";
     
-    const response = await ai.models.generateContent({
+    const stream = await ai.models.generateContentStream({
       model,
       contents: `Analyze and generate conflict data for the following query: "${query}". 
       If the query is vague (e.g., "global"), pick a specific active conflict zone (e.g., Sahel, Ukraine, Myanmar, Gaza) to focus on for better visualization.
-      Ensure coordinates are accurate for the named locations.`,
+      ${isEmptyFilter(filter) ? '' : `Every event must satisfy these constraints: ${describeFilter(filter)}.`}
+      Ensure coordinates are accurate for the named locations, and give each event the state or province (admin1) it took place in.`,
       config: {
         systemInstruction: SYSTEM_INSTRUCTION,
         responseMimeType: "application/json",
         responseSchema: ANALYSIS_SCHEMA,
         temperature: 0.4, // Lower temperature for more consistent data
+        abortSignal: signal,
       },
     });
 
-    const text = response.text;
+    const parser = createJsonArrayStream('events');
+    let text = '';
+    let streamed = 0;
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      const part = chunk.text || '';
+      text += part;
+      const items = parser.push(part);
+      if (onEvents && items.length > streamed) {
+        streamed = items.length;
+        onEvents(validateEvents(items, 'gemini').events);
+      }
+    }
     if (!text) throw new Error("No response from AI");
 
-    const data = JSON.parse(text) as AnalysisResult;
-    return data;
+    // Rejected events travel with the result; the UI lists them
+    return validateAnalysisResult(JSON.parse(text), 'gemini');
   } catch (error) {
     console.error("Error fetching conflict analysis:", error);
     throw error;
   }
 };
+
+const SUMMARY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: ANALYSIS_SCHEMA.properties!.summary,
+    trend: ANALYSIS_SCHEMA.properties!.trend,
+    keyActors: ANALYSIS_SCHEMA.properties!.keyActors,
+  },
+  required: ["summary", "trend", "keyActors"]
+};
+
+// Keeps prompts bounded for large imports; the deadliest and latest events matter most
+const MAX_SUMMARY_EVENTS = 200;
+
+/**
+ * Writes the narrative fields for a set of events that came from somewhere
+ * other than the model (imports, ACLED). The events themselves are not changed.
+ */
+export const summarizeEventSet = async (
+  events: ConflictEvent[],
+  context: string
+): Promise<Pick<AnalysisResult, 'summary' | 'trend' | 'keyActors'>> => {
+  try {
+    const sample = [...events]
+      .sort((a, b) => b.fatalities - a.fatalities || b.date.localeCompare(a.date))
+      .slice(0, MAX_SUMMARY_EVENTS)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const table = sample
+      .map(e => [e.date, e.type, e.actor1, e.actor2 || '', `${e.location}, ${e.country}`, e.fatalities].join(' | '))
+      .join('\n');
+
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `Summarise these ${events.length} conflict events (${context}). ` +
+        `${sample.length < events.length ? `Showing the ${sample.length} most lethal. ` : ''}` +
+        `Base every statement on the rows below; do not add events.\n` +
+        `date | type | actor1 | actor2 | location | fatalities\n${table}`,
+      config: {
+        systemInstruction: "You are a geopolitical intelligence analyst summarising event data supplied by the user. Output strict JSON.",
+        responseMimeType: "application/json",
+        responseSchema: SUMMARY_SCHEMA,
+        temperature: 0.2,
+      },
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    const { summary, trend, keyActors } = validateAnalysisResult({ ...JSON.parse(text), events: [] });
+    return { summary, trend, keyActors };
+  } catch (error) {
+    console.error("Error summarising events:", error);
+    throw error;
+  }
+};
+
+// Generative stand-in used when no record-based source is configured
+export const geminiDataSource: ConflictDataSource = {
+  kind: 'gemini',
+  label: 'Gemini (synthetic)',
+  attribution: 'Simulated data powered by Gemini AI',
+  load: async (request) => {
+    // The model is asked to stay inside the requested regions, but names them
+    // its own way ("Sinaloa State", a district instead of the state), so only
+    // the unambiguous constraints are enforced here
+    const filter = { ...request.filter, adminRegions: [] };
+    const result = await analyzeConflicts(request.query, request.filter, {
+      signal: request.signal,
+      onEvents: request.onEvents && (events => request.onEvents!(applyFilter(events, filter))),
+    });
+    return { ...result, events: applyFilter(result.events, filter) };
+  },
+};
@@ -0,0 +1,104 @@
+import { DataSourceKind, LiveTranscript, SavedAnalysis } from "../types";
+
+const DB_NAME = 'geoconflict';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+
+// Unpinned entries beyond this are pruned, oldest first
+const MAX_UNPINNED = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Could not open history database"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once the transaction commits
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("History transaction aborted"));
+  });
+};
+
+// Queries that differ only in case or spacing share a cache entry
+const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * All saved analyses, pinned first, then newest first.
+ */
+export const listAnalyses = async (): Promise<SavedAnalysis[]> => {
+  const entries = await run<SavedAnalysis[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt);
+};
+
+const pruneHistory = async () => {
+  const unpinned = (await listAnalyses()).filter(e => !e.pinned);
+  await Promise.all(unpinned.slice(MAX_UNPINNED).map(e => deleteAnalysis(e.id)));
+};
+
+export const saveAnalysis = async (entry: Omit<SavedAnalysis, 'id' | 'createdAt' | 'pinned' | 'name'> & { name?: string }): Promise<SavedAnalysis> => {
+  const saved: SavedAnalysis = {
+    ...entry,
+    id: `analysis-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: entry.name || entry.query,
+    createdAt: Date.now(),
+    pinned: false,
+  };
+  await run('readwrite', store => store.put(saved));
+  await pruneHistory();
+  return saved;
+};
+
+export const updateAnalysis = async (id: string, patch: Partial<Omit<SavedAnalysis, 'id'>>): Promise<SavedAnalysis> => {
+  const existing = await run<SavedAnalysis | undefined>('readonly', store => store.get(id));
+  if (!existing) throw new Error(`Saved analysis ${id} not found`);
+  const updated = { ...existing, ...patch };
+  await run('readwrite', store => store.put(updated));
+  return updated;
+};
+
+/**
+ * Stores an Overwatch session with an analysis. Attaching the same session
+ * again replaces the earlier copy, so a longer transcript can be re-saved.
+ */
+export const attachTranscript = async (id: string, transcript: LiveTranscript): Promise<SavedAnalysis> => {
+  const existing = await run<SavedAnalysis | undefined>('readonly', store => store.get(id));
+  if (!existing) throw new Error(`Saved analysis ${id} not found`);
+  const transcripts = (existing.transcripts || []).filter(t => t.id !== transcript.id);
+  return updateAnalysis(id, { transcripts: [...transcripts, transcript] });
+};
+
+export const deleteAnalysis = (id: string): Promise<undefined> =>
+  run('readwrite', store => store.delete(id));
+
+/**
+ * Most recent saved analysis for the same query from the same kind of source.
+ * Local imports are never matched, since their data isn't fetched by query.
+ */
+export const findCachedAnalysis = async (query: string, source: DataSourceKind): Promise<SavedAnalysis | null> => {
+  if (source === 'local') return null;
+  const key = normalizeQuery(query);
+  const matches = (await listAnalyses())
+    .filter(e => e.source === source && normalizeQuery(e.query) === key)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  return matches[0] || null;
+};
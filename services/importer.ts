@@ -0,0 +1,153 @@
+import { ConflictEvent, RejectedRecord } from "../types";
+import { detectDelimiter, parseCsv } from "./csv";
+import { mapAcledEventType } from "./acledClient";
+import { validateEvents } from "./validation";
+
+export interface ImportTable {
+  fileName: string;
+  format: 'csv' | 'geojson';
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+// ConflictEvent fields a column can be mapped onto, plus the provenance details a file may carry
+export type MappableField = Exclude<keyof ConflictEvent, 'provenance'> | 'geoPrecision' | 'confidence' | 'rawUrl';
+
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export const MAPPABLE_FIELDS: { field: MappableField; label: string; required?: boolean }[] = [
+  { field: 'id', label: 'Event ID' },
+  { field: 'date', label: 'Date', required: true },
+  { field: 'type', label: 'Event type', required: true },
+  { field: 'subType', label: 'Sub-type' },
+  { field: 'actor1', label: 'Actor 1', required: true },
+  { field: 'actor2', label: 'Actor 2' },
+  { field: 'country', label: 'Country', required: true },
+  { field: 'admin1', label: 'Admin 1' },
+  { field: 'admin2', label: 'Admin 2' },
+  { field: 'location', label: 'Location', required: true },
+  { field: 'latitude', label: 'Latitude', required: true },
+  { field: 'longitude', label: 'Longitude', required: true },
+  { field: 'fatalities', label: 'Fatalities' },
+  { field: 'description', label: 'Description' },
+  { field: 'source', label: 'Source' },
+  { field: 'geoPrecision', label: 'Geo-precision' },
+  { field: 'confidence', label: 'Confidence' },
+  { field: 'rawUrl', label: 'Record link' },
+];
+
+// Column names recognised per field, ACLED's first; compared case-insensitively
+const COLUMN_SYNONYMS: Record<MappableField, string[]> = {
+  id: ['event_id_cnty', 'id', 'event_id', 'uid'],
+  date: ['event_date', 'date', 'datetime', 'timestamp'],
+  type: ['event_type', 'type', 'category'],
+  subType: ['sub_event_type', 'subtype', 'sub_type'],
+  actor1: ['actor1', 'actor_1', 'actor', 'perpetrator'],
+  actor2: ['actor2', 'actor_2', 'target', 'victim'],
+  country: ['country', 'country_name'],
+  admin1: ['admin1', 'admin_1', 'province', 'state', 'region'],
+  admin2: ['admin2', 'admin_2', 'district'],
+  location: ['location', 'place', 'city', 'town', 'name'],
+  latitude: ['latitude', 'lat', 'y'],
+  longitude: ['longitude', 'lon', 'lng', 'long', 'x'],
+  fatalities: ['fatalities', 'deaths', 'killed', 'casualties'],
+  description: ['notes', 'description', 'summary', 'details'],
+  source: ['source', 'sources', 'reported_by'],
+  geoPrecision: ['geo_precision', 'geoprecision', 'precision'],
+  confidence: ['confidence', 'certainty', 'score'],
+  rawUrl: ['source_url', 'url', 'link', 'permalink'],
+};
+
+export const guessMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const lower = new Map(columns.map(c => [c.toLowerCase().trim(), c]));
+  (Object.keys(COLUMN_SYNONYMS) as MappableField[]).forEach(field => {
+    const match = COLUMN_SYNONYMS[field].find(name => lower.has(name));
+    if (match) mapping[field] = lower.get(match);
+  });
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  MAPPABLE_FIELDS.filter(f => f.required && !mapping[f.field]);
+
+const readText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+  reader.readAsText(file);
+});
+
+interface PointFeature {
+  id?: unknown;
+  properties: Record<string, unknown>;
+  coordinates: unknown[];
+}
+
+// Narrows one raw GeoJSON feature; anything but a Point is skipped
+const toPointFeature = (raw: unknown): PointFeature | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const feature = raw as Record<string, unknown>;
+  const geometry = feature.geometry as Record<string, unknown> | null | undefined;
+  if (geometry?.type !== 'Point' || !Array.isArray(geometry.coordinates)) return null;
+  const properties = feature.properties && typeof feature.properties === 'object'
+    ? feature.properties as Record<string, unknown>
+    : {};
+  return { id: feature.id, properties, coordinates: geometry.coordinates };
+};
+
+// Flattens Point features into rows; coordinates become latitude/longitude columns
+const geoJsonToRows = (text: string): Record<string, string>[] => {
+  const body = JSON.parse(text) as { type?: unknown; features?: unknown } | null;
+  const features: unknown[] = body?.type === 'FeatureCollection' && Array.isArray(body.features)
+    ? body.features
+    : body?.type === 'Feature' ? [body] : [];
+  return features
+    .map(toPointFeature)
+    .filter((f): f is PointFeature => f !== null)
+    .map(f => {
+      const row: Record<string, string> = {};
+      Object.entries(f.properties).forEach(([key, value]) => {
+        row[key] = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+      if (f.id !== undefined && row.id === undefined) row.id = String(f.id);
+      row.longitude = String(f.coordinates[0]);
+      row.latitude = String(f.coordinates[1]);
+      return row;
+    });
+};
+
+/**
+ * Reads a dropped file into a table of string cells. CSV (including ACLED
+ * exports and spreadsheet-converted files) and GeoJSON are supported.
+ */
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const text = await readText(file);
+  const isGeoJson = /\.(geo)?json$/i.test(file.name) || text.trimStart().startsWith('{');
+
+  const rows = isGeoJson ? geoJsonToRows(text) : parseCsv(text, detectDelimiter(text));
+  if (rows.length === 0) throw new Error(`No ${isGeoJson ? 'point features' : 'rows'} found in ${file.name}`);
+
+  const columns = [...new Set(rows.flatMap(r => Object.keys(r)))];
+  return { fileName: file.name, format: isGeoJson ? 'geojson' : 'csv', columns, rows };
+};
+
+/**
+ * Maps table rows onto ConflictEvents and validates them. ACLED event type
+ * names are translated first; anything else goes through the fuzzy matcher.
+ * Every event is marked as imported, keeping the file's own id as record id.
+ */
+export const applyMapping = (table: ImportTable, mapping: ColumnMapping): { events: ConflictEvent[]; rejected: RejectedRecord[] } => {
+  const raw = table.rows.map(row => {
+    const record: Record<string, string> = {};
+    (Object.keys(mapping) as MappableField[]).forEach(field => {
+      const column = mapping[field];
+      if (column) record[field] = row[column] ?? '';
+    });
+    if (record.type) record.type = mapAcledEventType(record.type) ?? record.type;
+    if (!record.description) record.description = [record.subType || record.type, record.location].filter(Boolean).join(' in ');
+    return record;
+  });
+
+  return validateEvents(raw, 'imported');
+};
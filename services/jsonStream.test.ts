@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonArrayStream } from './jsonStream';
+
+const response = {
+  summary: 'Clashes in the "north" {escalated}, see [1]',
+  trend: 'escalating',
+  events: [
+    { id: 'evt-1', description: 'Quote " brace } bracket ] backslash \\ done', fatalities: 2 },
+    { id: 'evt-2', description: 'Nested', tags: ['a', 'b'], location: { name: 'Gao', admin: ['x'] } },
+    { id: 'evt-3', description: 'Unicode é and a tab\t', fatalities: 0 },
+  ],
+  keyActors: ['A', 'B'],
+};
+const text = JSON.stringify(response, null, 2);
+
+// Feeds the text in pieces and returns what the stream reported after the last one
+const feed = (chunks: string[], key = 'events') => {
+  const stream = createJsonArrayStream(key);
+  let items: unknown[] = [];
+  chunks.forEach(chunk => { items = stream.push(chunk); });
+  return items;
+};
+
+const splitAt = (value: string, at: number) => [value.slice(0, at), value.slice(at)];
+
+describe('createJsonArrayStream', () => {
+  it('reads every item when the text arrives in one piece', () => {
+    expect(feed([text])).toEqual(response.events);
+  });
+
+  it('ignores quotes, escapes and braces inside strings', () => {
+    const tricky = '{"note": "a \\"quoted\\" }] and \\\\", "events": [{"text": "}{][\\"\\\\"}, {"text": "ok"}]}';
+    expect(feed([tricky])).toEqual(JSON.parse(tricky).events);
+  });
+
+  it('gives the same items whether fed whole, in two pieces at any point, or a character at a time', () => {
+    expect(feed([...text])).toEqual(response.events);
+    for (let at = 1; at < text.length; at++) {
+      expect(feed(splitAt(text, at))).toEqual(response.events);
+    }
+  });
+
+  it('reports items as soon as each one is complete', () => {
+    const stream = createJsonArrayStream('events');
+    const secondStart = text.indexOf('"id": "evt-2"');
+    expect(stream.push(text.slice(0, secondStart))).toEqual([response.events[0]]);
+    expect(stream.push(text.slice(secondStart))).toEqual(response.events);
+  });
+
+  it('finds the opener when it is split across chunks', () => {
+    const body = '{"summary": "x", "events"  :\n\n          \t [{"id": 1}, {"id": 2}]}';
+    const opener = body.indexOf('"events"');
+    const bracket = body.indexOf('[');
+    for (let at = opener; at <= bracket + 1; at++) {
+      expect(feed(splitAt(body, at))).toEqual([{ id: 1 }, { id: 2 }]);
+    }
+    // Whitespace run delivered in several chunks of its own
+    expect(feed(['{"events"', ':', '      ', '        ', '\n', '[', '{"id": 1}', ']}'])).toEqual([{ id: 1 }]);
+  });
+
+  it('does not take the key from inside a string value', () => {
+    const body = '{"summary": "see \\"events\\": [{\\"id\\": 9}]", "events": [{"id": 1}]}';
+    expect(feed([body])).toEqual([{ id: 1 }]);
+  });
+
+  it('stops at the end of the array', () => {
+    const body = '{"events": [{"id": 1}], "other": [{"id": 2}]}';
+    expect(feed([body])).toEqual([{ id: 1 }]);
+  });
+
+  it('skips an item that is not valid JSON and keeps going', () => {
+    const body = '{"events": [{"id": 1}, {"id": 2,}, {"id": 3}]}';
+    expect(feed([body])).toEqual([{ id: 1 }, { id: 3 }]);
+  });
+
+  it('returns nothing until the opener appears', () => {
+    expect(feed(['{"summary": "none yet", "trend": "stable"'])).toEqual([]);
+  });
+});
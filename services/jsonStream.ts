@@ -0,0 +1,88 @@
+/**
+ * Pulls complete items out of one array property of a JSON object while the
+ * text is still arriving, e.g. the `events` of a streamed model response.
+ * Only the outer text is scanned; each finished item is parsed on its own.
+ */
+export interface JsonArrayStream {
+  // Appends text and returns every item completed so far
+  push: (chunk: string) => unknown[];
+}
+
+export const createJsonArrayStream = (key: string): JsonArrayStream => {
+  let buffer = '';
+  let pos = 0;
+  let phase: 'seek' | 'array' | 'done' = 'seek';
+
+  // While seeking: where the current string began, and what must follow a matching key
+  let stringStart = -1;
+  let expect: ':' | '[' | null = null;
+
+  // Position inside the current item
+  let itemStart = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  const items: unknown[] = [];
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+
+      // Scanned a character at a time, so a key, colon or bracket split across chunks still matches
+      for (; phase === 'seek' && pos < buffer.length; pos++) {
+        const ch = buffer[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') {
+            inString = false;
+            expect = buffer.slice(stringStart + 1, pos) === key ? ':' : null;
+          }
+          continue;
+        }
+        if (/\s/.test(ch)) continue;
+        if (ch === expect) {
+          expect = ch === ':' ? '[' : null;
+          if (ch === '[') phase = 'array';
+          continue;
+        }
+        expect = null;
+        if (ch === '"') {
+          inString = true;
+          stringStart = pos;
+        }
+      }
+
+      for (; phase === 'array' && pos < buffer.length; pos++) {
+        const ch = buffer[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+        if (ch === '"') {
+          inString = true;
+        } else if (ch === '{' || ch === '[') {
+          if (depth === 0) itemStart = pos;
+          depth++;
+        } else if (ch === '}' || ch === ']') {
+          if (depth === 0) {
+            phase = 'done'; // closing bracket of the array itself
+            break;
+          }
+          depth--;
+          if (depth === 0) {
+            try {
+              items.push(JSON.parse(buffer.slice(itemStart, pos + 1)));
+            } catch {
+              // Left out of the preview; parsing the full response reports the malformed JSON
+            }
+            itemStart = -1;
+          }
+        }
+      }
+      return items.slice();
+    },
+  };
+};
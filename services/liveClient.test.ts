@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GoogleGenAI, LiveServerMessage } from '@google/genai';
+import type { LiveConnectionStatus, LiveClientState } from './liveClient';
+import type { TranscriptTurn } from '../types';
+import { TranscriptUpdate, applyTranscriptUpdate } from './transcript';
+
+type ConnectParams = Parameters<GoogleGenAI['live']['connect']>[0];
+
+// A stand-in for ai.live.connect: every call hands back a session whose callbacks the test drives
+interface FakeSocket {
+    params: ConnectParams;
+    session: {
+        close: ReturnType<typeof vi.fn>;
+        sendClientContent: ReturnType<typeof vi.fn>;
+        sendRealtimeInput: ReturnType<typeof vi.fn>;
+        sendToolResponse: ReturnType<typeof vi.fn>;
+    };
+    open: () => void;
+    drop: () => void;
+    message: (message: object) => void;
+}
+
+const transport = vi.hoisted(() => ({
+    sockets: [] as FakeSocket[],
+    connect: null as unknown as ReturnType<typeof vi.fn>,
+}));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@google/genai')>(),
+    GoogleGenAI: class {
+        live = { connect: (params: ConnectParams) => transport.connect(params) };
+    },
+}));
+
+const fakeNode = () => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    port: { postMessage: vi.fn(), onmessage: null as unknown },
+});
+
+vi.mock('./audioWorklets', () => ({
+    CAPTURE_MIME_TYPE: 'audio/pcm;rate=16000',
+    loadAudioWorklets: vi.fn(async () => {}),
+    createCaptureNode: vi.fn(() => fakeNode()),
+    createPlaybackNode: vi.fn(() => fakeNode()),
+    enqueuePlayback: vi.fn(),
+}));
+
+const { LiveClient, RECONNECT_MAX_ATTEMPTS } = await import('./liveClient');
+
+class FakeAudioContext {
+    static instances: FakeAudioContext[] = [];
+    state: AudioContextState = 'running';
+    destination = {};
+    close = vi.fn(async () => {
+        this.state = 'closed';
+    });
+
+    constructor() {
+        FakeAudioContext.instances.push(this);
+    }
+
+    createMediaStreamSource() {
+        return fakeNode();
+    }
+
+    createAnalyser() {
+        return { ...fakeNode(), fftSize: 0, smoothingTimeConstant: 0 };
+    }
+}
+
+const createTrack = () => ({ stop: vi.fn() });
+let tracks: ReturnType<typeof createTrack>[] = [];
+
+const createSocket = (params: ConnectParams): FakeSocket => ({
+    params,
+    session: {
+        close: vi.fn(),
+        sendClientContent: vi.fn(),
+        sendRealtimeInput: vi.fn(),
+        sendToolResponse: vi.fn(),
+    },
+    open: () => params.callbacks.onopen?.(),
+    drop: () => params.callbacks.onclose?.({} as CloseEvent),
+    message: (message) => params.callbacks.onmessage(message as LiveServerMessage),
+});
+
+// Lets the reconnect timer's async openSession run to completion
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('LiveClient against a fake live transport', () => {
+    let states: LiveClientState[];
+    let client: InstanceType<typeof LiveClient>;
+
+    const statuses = () => states.map(s => s.status).filter((s, i, all) => s !== all[i - 1]);
+    const status = (): LiveConnectionStatus => states[states.length - 1].status;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal('window', globalThis);
+        vi.stubGlobal('AudioContext', FakeAudioContext);
+        vi.stubGlobal('navigator', {
+            mediaDevices: {
+                getUserMedia: vi.fn(async () => {
+                    const stream = [createTrack(), createTrack()];
+                    tracks.push(...stream);
+                    return { getTracks: () => stream };
+                }),
+            },
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        transport.sockets = [];
+        transport.connect = vi.fn(async (params: ConnectParams) => {
+            const socket = createSocket(params);
+            transport.sockets.push(socket);
+            return socket.session;
+        });
+        FakeAudioContext.instances = [];
+        tracks = [];
+        states = [];
+        client = new LiveClient(state => states.push(state));
+    });
+
+    afterEach(() => {
+        client.disconnect();
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const connectAndOpen = async () => {
+        await client.connect();
+        transport.sockets[transport.sockets.length - 1].open();
+    };
+
+    it('moves idle -> connecting -> open -> reconnecting -> open -> closed', async () => {
+        expect(states).toEqual([]);
+        await connectAndOpen();
+        expect(states[0].status).toBe('connecting');
+        expect(status()).toBe('open');
+        expect(states[states.length - 1].hasMic).toBe(true);
+
+        transport.sockets[0].drop();
+        expect(status()).toBe('reconnecting');
+        expect(states[states.length - 1].reconnectAttempt).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(500);
+        transport.sockets[1].open();
+        expect(status()).toBe('open');
+        expect(states[states.length - 1].reconnectAttempt).toBe(0);
+
+        client.disconnect();
+        expect(statuses()).toEqual(['connecting', 'open', 'reconnecting', 'open', 'closed']);
+    });
+
+    it('backs off exponentially and gives up after the maximum attempts', async () => {
+        await connectAndOpen();
+        transport.connect.mockRejectedValue(new Error('socket refused'));
+        transport.sockets[0].drop();
+
+        let delay = 500;
+        for (let attempt = 1; attempt <= RECONNECT_MAX_ATTEMPTS; attempt++) {
+            expect(status()).toBe('reconnecting');
+            expect(states[states.length - 1].reconnectAttempt).toBe(attempt);
+
+            await vi.advanceTimersByTimeAsync(delay - 1);
+            expect(transport.connect).toHaveBeenCalledTimes(attempt);
+            await vi.advanceTimersByTimeAsync(1);
+            expect(transport.connect).toHaveBeenCalledTimes(attempt + 1);
+            delay *= 2;
+        }
+
+        expect(status()).toBe('closed');
+        expect(states[states.length - 1].error).toBe('Connection lost');
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(transport.connect).toHaveBeenCalledTimes(RECONNECT_MAX_ATTEMPTS + 1);
+    });
+
+    it('resumes the session with the latest handle on reconnect', async () => {
+        await connectAndOpen();
+        expect(transport.sockets[0].params.config?.sessionResumption).toEqual({});
+
+        transport.sockets[0].message({ sessionResumptionUpdate: { resumable: true, newHandle: 'handle-1' } });
+        transport.sockets[0].message({ sessionResumptionUpdate: { resumable: true, newHandle: 'handle-2' } });
+        // Not resumable at this point, so the previous handle stays
+        transport.sockets[0].message({ sessionResumptionUpdate: { resumable: false, newHandle: 'handle-3' } });
+        transport.sockets[0].drop();
+        await vi.advanceTimersByTimeAsync(500);
+
+        expect(transport.sockets[1].params.config?.sessionResumption).toEqual({ handle: 'handle-2' });
+    });
+
+    it('reconnects when the server sends goAway', async () => {
+        await connectAndOpen();
+        transport.sockets[0].message({ goAway: { timeLeft: '5s' } });
+        expect(status()).toBe('reconnecting');
+        expect(transport.sockets[0].session.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores callbacks from a stale socket', async () => {
+        await connectAndOpen();
+        const stale = transport.sockets[0];
+        stale.drop();
+        await vi.advanceTimersByTimeAsync(500);
+        transport.sockets[1].open();
+        const seen = states.length;
+
+        stale.drop();
+        stale.params.callbacks.onerror?.({ message: 'late error' } as ErrorEvent);
+        stale.message({ sessionResumptionUpdate: { resumable: true, newHandle: 'stale-handle' } });
+        stale.open();
+        await vi.advanceTimersByTimeAsync(10_000);
+
+        expect(states.length).toBe(seen);
+        expect(status()).toBe('open');
+        expect(transport.connect).toHaveBeenCalledTimes(2);
+
+        // The stale handle must not be used either
+        transport.sockets[1].drop();
+        await vi.advanceTimersByTimeAsync(500);
+        expect(transport.sockets[2].params.config?.sessionResumption).toEqual({});
+    });
+
+    it('closes a socket that finishes connecting after disconnect()', async () => {
+        let release: (session: unknown) => void = () => {};
+        transport.connect.mockImplementationOnce((params: ConnectParams) => {
+            const socket = createSocket(params);
+            transport.sockets.push(socket);
+            return new Promise(resolve => {
+                release = () => resolve(socket.session);
+            });
+        });
+
+        const connecting = client.connect();
+        await settle();
+        client.disconnect();
+        release(null);
+        await connecting;
+
+        expect(transport.sockets[0].session.close).toHaveBeenCalledTimes(1);
+        expect(status()).toBe('closed');
+    });
+
+    it('disconnect() stops every track, closes the session once and leaves closed contexts alone', async () => {
+        await connectAndOpen();
+        await client.setInputDevice('second-mic');
+        expect(tracks).toHaveLength(4);
+
+        const context = FakeAudioContext.instances[0];
+        const session = transport.sockets[0].session;
+
+        client.disconnect();
+        client.disconnect();
+
+        tracks.forEach(track => expect(track.stop).toHaveBeenCalled());
+        expect(session.close).toHaveBeenCalledTimes(1);
+        expect(context.close).toHaveBeenCalledTimes(1);
+        expect(status()).toBe('closed');
+    });
+
+    it('reports an interruption before the operator text that came with it', async () => {
+        const updates: TranscriptUpdate[] = [];
+        client.disconnect();
+        client = new LiveClient(state => states.push(state), update => updates.push(update));
+        await connectAndOpen();
+        const socket = transport.sockets[transport.sockets.length - 1];
+
+        socket.message({ serverContent: { outputTranscription: { text: 'There were forty' } } });
+        socket.message({ serverContent: { inputTranscription: { text: 'Stop' }, interrupted: true } });
+
+        expect(updates.map(u => u.kind === 'text' ? u.speaker : u.kind)).toEqual(['overwatch', 'interrupted', 'operator']);
+        const turns = updates.reduce<TranscriptTurn[]>((all, update) => applyTranscriptUpdate(all, update), []);
+        expect(turns[0]).toMatchObject({ speaker: 'overwatch', interrupted: true });
+    });
+
+    it('does not close an AudioContext that is already closed', async () => {
+        await connectAndOpen();
+        const context = FakeAudioContext.instances[0];
+        context.state = 'closed';
+
+        client.disconnect();
+        expect(context.close).not.toHaveBeenCalled();
+        expect(transport.sockets[0].session.close).toHaveBeenCalledTimes(1);
+    });
+});
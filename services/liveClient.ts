@@ -1,27 +1,191 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from "@google/genai";
+import { GoogleGenAI, LiveServerMessage, Modality, Session } from "@google/genai";
+import { LIVE_FUNCTION_DECLARATIONS, LiveToolActions, runLiveToolCall } from "./liveTools";
+import { buildAnalysisBriefing } from "./liveContext";
+import { TranscriptUpdate } from "./transcript";
+import { CAPTURE_MIME_TYPE, CaptureMessage, PlaybackMessage, createCaptureNode, createPlaybackNode, enqueuePlayback, loadAudioWorklets } from "./audioWorklets";
+import { base64ToBytes } from "./pcm";
+import { createVoiceActivityDetector } from "./vad";
 
 const API_KEY = process.env.API_KEY as string;
 const ai = new GoogleGenAI({ apiKey: API_KEY });
 
+/**
+ * idle -> connecting -> open, with open -> reconnecting -> open when the
+ * socket drops. disconnect() or running out of retries ends in closed.
+ */
+export type LiveConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * How mic audio reaches the session. Server-side detection is off, so the
+ * client marks each turn with activityStart/activityEnd: around detected
+ * speech in 'vad' mode, or while the talk key is held in 'ptt' mode.
+ */
+export type LiveInputMode = 'vad' | 'ptt';
+
+/**
+ * How Overwatch answers. The native-audio model only speaks, so text
+ * replies come from its output transcription; 'text' skips playback and
+ * 'audio' keeps the text out of the channel log's live view.
+ */
+export type LiveReplyMode = 'audio' | 'text' | 'both';
+
 export interface LiveClientState {
-    isConnected: boolean;
+    status: LiveConnectionStatus;
     isSpeaking: boolean;
+    isTransmitting: boolean; // mic audio is currently being sent
+    hasMic: boolean; // false when connected without a microphone (text only)
     error: string | null;
+    reconnectAttempt: number;
+}
+
+/** Measured link health, polled by the UI */
+export interface LiveStats {
+    roundTripMs: number | null; // end of operator speech to first audio of the reply
+    bufferedSeconds: number; // model audio queued for playback
+    droppedChunks: number; // capture and playback chunks that lost audio
+}
+
+export interface LiveAnalysers {
+    input: AnalyserNode;
+    output: AnalyserNode;
 }
 
+// Mic RMS above this counts as speech when timing the round trip
+const SPEECH_LEVEL = 0.02;
+
+// Chunks (100 ms each) kept while silent, so the start of a word isn't clipped
+const PRE_ROLL_CHUNKS = 3;
+
+// Reconnect backoff: 0.5 s, 1 s, 2 s, 4 s, 8 s, then give up
+const RECONNECT_BASE_MS = 500;
+export const RECONNECT_MAX_ATTEMPTS = 5;
+
+const MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
 export class LiveClient {
-    private session: any = null;
-    private inputContext: AudioContext | null = null;
-    private outputContext: AudioContext | null = null;
+    private session: Session | null = null;
+    // Bumped for every socket; callbacks from an older socket are ignored
+    private generation: number = 0;
+    private resumeHandle: string | null = null;
+    private reconnectTimer: number | null = null;
+    private toolActions: LiveToolActions | null = null;
+    private briefing: string = buildAnalysisBriefing(null, null);
+    // Briefing the model last received, via the system instruction or an update
+    private sentBriefing: string | null = null;
+    // One context at the device's native rate; the worklets resample to and from the API's rates
+    private audioContext: AudioContext | null = null;
+    private stream: MediaStream | null = null;
+    private deviceId: string | null = null;
+    private inputMode: LiveInputMode = 'vad';
+    private muted: boolean = false;
+    private talkHeld: boolean = false;
+    private replyMode: LiveReplyMode = 'both';
+    private vad = createVoiceActivityDetector();
+    private preRoll: string[] = [];
     private inputSource: MediaStreamAudioSourceNode | null = null;
-    private processor: ScriptProcessorNode | null = null;
-    private nextStartTime: number = 0;
-    private audioQueue: AudioBufferSourceNode[] = [];
+    private captureNode: AudioWorkletNode | null = null;
+    private playbackNode: AudioWorkletNode | null = null;
+    private inputAnalyser: AnalyserNode | null = null;
+    private outputAnalyser: AnalyserNode | null = null;
+    private lastSpeechAt: number | null = null;
+    private awaitingReply: boolean = true;
+    private captureDropped: number = 0;
+    private playbackDropped: number = 0;
+    private unsentChunks: number = 0;
+    private stats: LiveStats = { roundTripMs: null, bufferedSeconds: 0, droppedChunks: 0 };
     private onStateChange: (state: LiveClientState) => void;
-    private currentState: LiveClientState = { isConnected: false, isSpeaking: false, error: null };
+    private onTranscript: (update: TranscriptUpdate) => void;
+    private currentState: LiveClientState = { status: 'idle', isSpeaking: false, isTransmitting: false, hasMic: false, error: null, reconnectAttempt: 0 };
 
-    constructor(onStateChange: (state: LiveClientState) => void) {
+    constructor(onStateChange: (state: LiveClientState) => void, onTranscript: (update: TranscriptUpdate) => void = () => {}) {
         this.onStateChange = onStateChange;
+        this.onTranscript = onTranscript;
+    }
+
+    /** Connects Overwatch's function calls to the app; calls made without actions get an error response */
+    setToolActions(actions: LiveToolActions | null) {
+        this.toolActions = actions;
+    }
+
+    /**
+     * Keeps Overwatch grounded in the data on screen. The briefing is part of
+     * the system instruction at connect; later changes are pushed into the
+     * open session as context without asking for a reply.
+     */
+    setBriefing(briefing: string) {
+        this.briefing = briefing;
+        this.pushBriefing();
+    }
+
+    private pushBriefing() {
+        if (!this.session || this.currentState.status !== 'open' || this.sentBriefing === this.briefing) return;
+        this.sentBriefing = this.briefing;
+        this.session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: `DISPLAY UPDATE. The operator's display now shows:\n${this.briefing}` }] }],
+            turnComplete: false,
+        });
+    }
+
+    setInputMode(mode: LiveInputMode) {
+        this.inputMode = mode;
+        this.vad.reset();
+        this.updateTransmitting();
+    }
+
+    setMuted(muted: boolean) {
+        this.muted = muted;
+        this.updateTransmitting();
+    }
+
+    /** Push-to-talk key or button held down */
+    setTalkHeld(held: boolean) {
+        this.talkHeld = held;
+        this.updateTransmitting();
+    }
+
+    setReplyMode(mode: LiveReplyMode) {
+        this.replyMode = mode;
+        if (mode === 'text') this.playbackNode?.port.postMessage({ type: 'clear' });
+    }
+
+    /**
+     * Sends a typed operator turn through the open session. Returns false
+     * when there is no session to send it on.
+     */
+    sendText(text: string): boolean {
+        const trimmed = text.trim();
+        if (!trimmed || !this.session || this.currentState.status !== 'open') return false;
+
+        this.session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: trimmed }] }], turnComplete: true });
+        this.onTranscript({ kind: 'text', speaker: 'operator', text: trimmed, via: 'text' });
+        this.onTranscript({ kind: 'turnComplete' });
+        // Typed turns are timed from the moment they are sent
+        this.lastSpeechAt = performance.now();
+        this.awaitingReply = true;
+        return true;
+    }
+
+    /** Switches microphone, live if connected; null means the system default */
+    async setInputDevice(deviceId: string | null) {
+        this.deviceId = deviceId;
+        if (!this.audioContext) return;
+
+        try {
+            this.attachMic(await this.openMic());
+        } catch (error) {
+            console.error("Error switching microphone:", error);
+            this.updateState({ error: (error instanceof Error ? error.message : String(error)) || "Could not open microphone" });
+        }
+    }
+
+    /** Taps on the mic and model audio for visualisation, while connected */
+    getAnalysers(): LiveAnalysers | null {
+        if (!this.inputAnalyser || !this.outputAnalyser) return null;
+        return { input: this.inputAnalyser, output: this.outputAnalyser };
+    }
+
+    getStats(): LiveStats {
+        return { ...this.stats, droppedChunks: this.captureDropped + this.playbackDropped + this.unsentChunks };
     }
 
     private updateState(partial: Partial<LiveClientState>) {
@@ -30,180 +194,322 @@ export class LiveClient {
     }
 
     async connect() {
+        const { status } = this.currentState;
+        if (status === 'connecting' || status === 'open' || status === 'reconnecting') return;
+
+        this.updateState({ status: 'connecting', error: null, reconnectAttempt: 0 });
+        this.resumeHandle = null;
         try {
-            this.updateState({ error: null });
-            
-            // Initialize Audio Contexts
-            this.inputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            this.outputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            
-            const config = {
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } }, // Deep voice for "Commander" feel
-                    },
-                    systemInstruction: "You are 'Overwatch', a military intelligence AI component of the GeoConflict system. Your demeanor is precise, calm, and strategic. You provide situation reports (SITREPs) and tactical analysis on global conflicts. Use military terminology where appropriate (e.g., 'Copy', 'Roger', 'Sector'). Keep responses concise and actionable.",
+            await this.startAudio();
+            // disconnect() while the mic prompt was open
+            if (this.currentState.status !== 'connecting') {
+                this.teardown();
+                return;
+            }
+            await this.openSession();
+        } catch (error) {
+            console.error("Error connecting to Live API:", error);
+            this.teardown();
+            this.updateState({ status: 'closed', isTransmitting: false, error: (error instanceof Error ? error.message : String(error)) || "Failed to connect" });
+        }
+    }
+
+    // The audio graph outlives individual sockets, so a reconnect doesn't re-prompt for the mic
+    private async startAudio() {
+        this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        await loadAudioWorklets(this.audioContext);
+        this.playbackNode = createPlaybackNode(this.audioContext);
+        this.playbackNode.port.onmessage = (e: MessageEvent<PlaybackMessage>) => {
+            if (e.data.type === 'state') {
+                this.updateState({ isSpeaking: e.data.playing });
+            } else {
+                this.stats.bufferedSeconds = e.data.bufferedSeconds;
+                this.playbackDropped = e.data.droppedChunks;
+            }
+        };
+        this.inputAnalyser = this.createAnalyser(this.audioContext);
+        this.outputAnalyser = this.createAnalyser(this.audioContext);
+        this.playbackNode.connect(this.outputAnalyser);
+        this.outputAnalyser.connect(this.audioContext.destination);
+        this.resetStats();
+
+        this.captureNode = createCaptureNode(this.audioContext);
+        this.captureNode.port.onmessage = (e: MessageEvent<CaptureMessage>) => this.handleCaptureChunk(e.data);
+
+        // No microphone (missing or refused) still leaves the typed channel
+        try {
+            this.attachMic(await this.openMic());
+        } catch (error) {
+            console.error("Error opening microphone, continuing text only:", error);
+            this.updateState({ hasMic: false });
+        }
+    }
+
+    private attachMic(stream: MediaStream) {
+        if (!this.audioContext || !this.captureNode || !this.inputAnalyser) return;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.inputSource?.disconnect();
+
+        this.stream = stream;
+        this.inputSource = this.audioContext.createMediaStreamSource(stream);
+        this.inputSource.connect(this.captureNode);
+        // Analyser only, not the speakers, so the operator doesn't hear themselves
+        this.inputSource.connect(this.inputAnalyser);
+        this.updateState({ hasMic: true });
+    }
+
+    private openMic() {
+        return navigator.mediaDevices.getUserMedia({
+            audio: this.deviceId ? { deviceId: { exact: this.deviceId } } : true,
+        });
+    }
+
+    // Chunks arrive already resampled and base64-encoded; only speech is sent
+    private handleCaptureChunk(chunk: CaptureMessage) {
+        this.captureDropped = chunk.droppedChunks;
+        this.vad.update(chunk.level);
+        this.updateTransmitting();
+
+        if (!this.currentState.isTransmitting) {
+            this.preRoll = [...this.preRoll, chunk.data].slice(-PRE_ROLL_CHUNKS);
+            return;
+        }
+        if (chunk.level > SPEECH_LEVEL) this.lastSpeechAt = performance.now();
+        this.sendAudio(chunk.data);
+    }
+
+    private sendAudio(data: string) {
+        if (this.session && this.currentState.status === 'open') {
+            this.session.sendRealtimeInput({ media: { data, mimeType: CAPTURE_MIME_TYPE } });
+        } else {
+            this.unsentChunks++;
+        }
+    }
+
+    // Opens or closes the operator's turn when mute, push-to-talk or the VAD change
+    private updateTransmitting() {
+        const wanted = !this.muted && (this.inputMode === 'ptt' ? this.talkHeld : this.vad.isActive());
+        if (wanted === this.currentState.isTransmitting) return;
+
+        const session = this.currentState.status === 'open' ? this.session : null;
+        if (wanted) {
+            session?.sendRealtimeInput({ activityStart: {} });
+            this.updateState({ isTransmitting: true });
+            this.preRoll.forEach(data => this.sendAudio(data));
+        } else {
+            session?.sendRealtimeInput({ activityEnd: {} });
+            this.updateState({ isTransmitting: false });
+        }
+        this.preRoll = [];
+    }
+
+    private async openSession() {
+        const generation = ++this.generation;
+        this.sentBriefing = this.briefing;
+
+        const session = await ai.live.connect({
+            model: MODEL,
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } }, // Deep voice for "Commander" feel
+                },
+                systemInstruction: "You are 'Overwatch', a military intelligence AI component of the GeoConflict system. Your demeanor is precise, calm, and strategic. You provide situation reports (SITREPs) and tactical analysis on global conflicts. Use military terminology where appropriate (e.g., 'Copy', 'Roger', 'Sector'). Keep responses concise and actionable. " +
+                    "You can operate the operator's display with your tools: run searches, move the map, filter by event type and switch views. Use them when asked to show something, then confirm briefly what is now on screen. " +
+                    "Base every SITREP on the data on the operator's display and cite its events, dates and fatality counts exactly; do not invent incidents. " +
+                    "Display updates will arrive as the operator runs new searches.\n\nThe operator's display currently shows:\n" + this.briefing,
+                tools: [{ functionDeclarations: LIVE_FUNCTION_DECLARATIONS }],
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                // Turns are marked by the client, see LiveInputMode
+                realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+                // Lets a dropped socket pick the conversation back up
+                sessionResumption: this.resumeHandle ? { handle: this.resumeHandle } : {},
+            },
+            callbacks: {
+                onopen: () => {
+                    if (generation !== this.generation) return;
+                    // A turn left open on the old socket starts afresh on this one
+                    this.vad.reset();
+                    this.updateState({ status: 'open', isTransmitting: false, error: null, reconnectAttempt: 0 });
+                },
+                onmessage: (message: LiveServerMessage) => {
+                    if (generation !== this.generation) return;
+                    this.handleMessage(message);
+                },
+                onclose: () => {
+                    if (generation !== this.generation) return;
+                    this.scheduleReconnect();
                 },
-            };
-
-            const sessionPromise = ai.live.connect({
-                model: config.model,
-                config: config.config,
-                callbacks: {
-                    onopen: () => {
-                        this.updateState({ isConnected: true });
-                        this.startInputStream(stream, sessionPromise);
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                        this.handleMessage(message);
-                    },
-                    onclose: () => {
-                        this.disconnect();
-                    },
-                    onerror: (err) => {
-                        console.error("Live API Error:", err);
-                        this.updateState({ error: "Connection lost" });
-                        this.disconnect();
-                    }
+                onerror: (err) => {
+                    if (generation !== this.generation) return;
+                    console.error("Live API Error:", err);
+                    this.scheduleReconnect();
                 }
-            });
+            }
+        });
 
-        } catch (error: any) {
-            this.updateState({ error: error.message || "Failed to connect" });
+        // disconnect() or a newer socket got here first
+        if (generation !== this.generation) {
+            this.closeSession(session);
+            return;
         }
+        this.session = session;
+        this.pushBriefing();
     }
 
-    private startInputStream(stream: MediaStream, sessionPromise: Promise<any>) {
-        if (!this.inputContext) return;
+    private scheduleReconnect() {
+        if (this.reconnectTimer !== null) return;
 
-        this.inputSource = this.inputContext.createMediaStreamSource(stream);
-        this.processor = this.inputContext.createScriptProcessor(4096, 1, 1);
+        const oldSession = this.session;
+        this.session = null;
+        this.generation++;
+        this.closeSession(oldSession);
 
-        this.processor.onaudioprocess = (e) => {
-            const inputData = e.inputBuffer.getChannelData(0);
-            const pcmBlob = this.createBlob(inputData);
-            
-            sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-            });
-        };
+        // Whatever was mid-flight belongs to the old socket
+        this.playbackNode?.port.postMessage({ type: 'clear' });
+        this.onTranscript({ kind: 'turnComplete' });
+        this.awaitingReply = true;
 
-        this.inputSource.connect(this.processor);
-        this.processor.connect(this.inputContext.destination);
-    }
-
-    private async handleMessage(message: LiveServerMessage) {
-        const audioString = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-        if (audioString && this.outputContext) {
-            this.updateState({ isSpeaking: true });
-            
-            // Ensure start time is at least current time
-            this.nextStartTime = Math.max(this.nextStartTime, this.outputContext.currentTime);
-
-            const audioBuffer = await this.decodeAudioData(
-                this.decode(audioString),
-                this.outputContext,
-                24000,
-                1
-            );
-
-            const source = this.outputContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(this.outputContext.destination);
-            
-            source.addEventListener('ended', () => {
-                // Simple heuristic: if queue is effectively empty (time passed), we stopped speaking
-                if (this.outputContext && this.outputContext.currentTime >= this.nextStartTime) {
-                     this.updateState({ isSpeaking: false });
-                }
-            });
+        const attempt = this.currentState.reconnectAttempt + 1;
+        if (attempt > RECONNECT_MAX_ATTEMPTS) {
+            this.teardown();
+            this.updateState({ status: 'closed', error: "Connection lost", isSpeaking: false, isTransmitting: false });
+            return;
+        }
 
-            source.start(this.nextStartTime);
-            this.nextStartTime += audioBuffer.duration;
-            this.audioQueue.push(source);
+        this.updateState({ status: 'reconnecting', reconnectAttempt: attempt, isSpeaking: false });
+        this.reconnectTimer = window.setTimeout(async () => {
+            this.reconnectTimer = null;
+            try {
+                await this.openSession();
+            } catch (error) {
+                console.error("Error reconnecting to Live API:", error);
+                this.scheduleReconnect();
+            }
+        }, RECONNECT_BASE_MS * 2 ** (attempt - 1));
+    }
+
+    private handleMessage(message: LiveServerMessage) {
+        if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+            this.resumeHandle = message.sessionResumptionUpdate.newHandle;
+        }
+
+        // The server is about to drop this socket; move to a new one while the handle is fresh
+        if (message.goAway) {
+            this.scheduleReconnect();
+            return;
         }
 
+        if (message.toolCall?.functionCalls?.length) {
+            this.handleToolCall(message.toolCall.functionCalls);
+        }
+
+        // Reported before the transcription, whose operator text would otherwise close Overwatch's turn first
         if (message.serverContent?.interrupted) {
-            this.stopAudioQueue();
-            this.updateState({ isSpeaking: false });
+            this.playbackNode?.port.postMessage({ type: 'clear' });
+            this.onTranscript({ kind: 'interrupted' });
         }
-    }
 
-    private stopAudioQueue() {
-        this.audioQueue.forEach(source => {
-            try { source.stop(); } catch (e) {}
+        const inputText = message.serverContent?.inputTranscription?.text;
+        if (inputText) this.onTranscript({ kind: 'text', speaker: 'operator', text: inputText });
+        const outputText = message.serverContent?.outputTranscription?.text;
+        if (outputText) this.onTranscript({ kind: 'text', speaker: 'overwatch', text: outputText, via: this.replyMode === 'text' ? 'text' : 'voice' });
+
+        // The playback worklet reports isSpeaking as it actually starts and stops
+        message.serverContent?.modelTurn?.parts?.forEach(part => {
+            const audioString = part.inlineData?.data;
+            if (!audioString || !this.playbackNode) return;
+            if (this.awaitingReply) {
+                this.awaitingReply = false;
+                // Replies not prompted by speech (e.g. after a tool call) aren't timed
+                if (this.lastSpeechAt !== null) this.stats.roundTripMs = performance.now() - this.lastSpeechAt;
+                this.lastSpeechAt = null;
+            }
+            if (this.replyMode !== 'text') enqueuePlayback(this.playbackNode, base64ToBytes(audioString));
         });
-        this.audioQueue = [];
-        this.nextStartTime = 0;
+
+        if (message.serverContent?.interrupted || message.serverContent?.turnComplete) {
+            this.awaitingReply = true;
+        }
+
+        if (message.serverContent?.turnComplete) {
+            this.playbackNode?.port.postMessage({ type: 'flush' });
+            this.onTranscript({ kind: 'turnComplete' });
+        }
     }
 
-    disconnect() {
-        this.stopAudioQueue();
-        
-        if (this.inputSource) this.inputSource.disconnect();
-        if (this.processor) this.processor.disconnect();
-        
-        if (this.inputContext) this.inputContext.close();
-        if (this.outputContext) this.outputContext.close();
-
-        this.inputContext = null;
-        this.outputContext = null;
-        this.updateState({ isConnected: false, isSpeaking: false });
-    }
-
-    // --- Audio Utilities ---
-
-    private createBlob(data: Float32Array): Blob {
-        const l = data.length;
-        const int16 = new Int16Array(l);
-        for (let i = 0; i < l; i++) {
-            int16[i] = data[i] * 32768;
-        }
-        return {
-            data: this.encode(new Uint8Array(int16.buffer)),
-            mimeType: 'audio/pcm;rate=16000',
-        };
+    private async handleToolCall(calls: NonNullable<LiveServerMessage['toolCall']>['functionCalls'] = []) {
+        const session = this.session;
+        const functionResponses = await Promise.all(calls.map(async call => ({
+            id: call.id,
+            name: call.name,
+            response: this.toolActions
+                ? await runLiveToolCall(call, this.toolActions)
+                : { error: "Display is not available" },
+        })));
+
+        // Call ids are only meaningful to the socket that made them
+        if (session && session === this.session) session.sendToolResponse({ functionResponses });
     }
 
-    private encode(bytes: Uint8Array) {
-        let binary = '';
-        const len = bytes.byteLength;
-        for (let i = 0; i < len; i++) {
-            binary += String.fromCharCode(bytes[i]);
-        }
-        return btoa(binary);
+    private createAnalyser(ctx: AudioContext) {
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0.6;
+        return analyser;
+    }
+
+    private resetStats() {
+        this.lastSpeechAt = null;
+        this.awaitingReply = true;
+        this.captureDropped = 0;
+        this.playbackDropped = 0;
+        this.unsentChunks = 0;
+        this.stats = { roundTripMs: null, bufferedSeconds: 0, droppedChunks: 0 };
     }
 
-    private decode(base64: string) {
-        const binaryString = atob(base64);
-        const len = binaryString.length;
-        const bytes = new Uint8Array(len);
-        for (let i = 0; i < len; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
+    private closeSession(session: Session | null) {
+        try {
+            session?.close();
+        } catch (error) {
+            // Already closed
         }
-        return bytes;
     }
 
-    private async decodeAudioData(
-        data: Uint8Array,
-        ctx: AudioContext,
-        sampleRate: number,
-        numChannels: number
-    ): Promise<AudioBuffer> {
-        const dataInt16 = new Int16Array(data.buffer);
-        const frameCount = dataInt16.length / numChannels;
-        const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+    // Releases the mic, the audio graph and the socket
+    private teardown() {
+        if (this.reconnectTimer !== null) window.clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+        this.generation++;
+        this.closeSession(this.session);
+        this.session = null;
 
-        for (let channel = 0; channel < numChannels; channel++) {
-            const channelData = buffer.getChannelData(channel);
-            for (let i = 0; i < frameCount; i++) {
-                channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-            }
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.inputSource?.disconnect();
+        this.captureNode?.disconnect();
+        if (this.captureNode) this.captureNode.port.onmessage = null;
+        this.playbackNode?.disconnect();
+        if (this.playbackNode) this.playbackNode.port.onmessage = null;
+        this.inputAnalyser?.disconnect();
+        this.outputAnalyser?.disconnect();
+        if (this.audioContext && this.audioContext.state !== 'closed') {
+            this.audioContext.close().catch(() => {});
         }
-        return buffer;
+
+        this.audioContext = null;
+        this.stream = null;
+        this.inputSource = null;
+        this.captureNode = null;
+        this.playbackNode = null;
+        this.inputAnalyser = null;
+        this.outputAnalyser = null;
+    }
+
+    disconnect() {
+        if (this.currentState.status === 'idle' || this.currentState.status === 'closed') return;
+        this.teardown();
+        this.resumeHandle = null;
+        this.updateState({ status: 'closed', isSpeaking: false, isTransmitting: false, hasMic: false, reconnectAttempt: 0 });
     }
 }
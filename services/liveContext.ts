@@ -0,0 +1,32 @@
+import { AnalysisResult } from "../types";
+
+// Enough for a SITREP without crowding the context window
+const MAX_BRIEFING_EVENTS = 60;
+
+/**
+ * Plain-text digest of what is on screen, used to ground Overwatch.
+ * Events are listed newest first as a pipe-separated table, with the same
+ * ids, dates and fatality counts the sidebar shows.
+ */
+export const buildAnalysisBriefing = (query: string | null, result: AnalysisResult | null): string => {
+  if (!result) return "No analysis is loaded yet.";
+
+  const events = [...result.events].sort((a, b) => b.date.localeCompare(a.date));
+  const fatalities = events.reduce((acc, e) => acc + e.fatalities, 0);
+  const dates = events.map(e => e.date).sort();
+  const rows = events.slice(0, MAX_BRIEFING_EVENTS).map(e =>
+    [e.id, e.date, e.type, `${e.location}, ${e.country}`, [e.actor1, e.actor2].filter(Boolean).join(' vs '), e.fatalities].join(' | ')
+  );
+
+  return [
+    `Query: ${query || 'imported dataset'}`,
+    `Trend: ${result.trend}`,
+    `Summary: ${result.summary}`,
+    `Key actors: ${result.keyActors.join(', ') || 'none'}`,
+    `Totals: ${events.length} events, ${fatalities} fatalities${dates.length ? `, ${dates[0]} to ${dates[dates.length - 1]}` : ''}`,
+    '',
+    'id | date | type | location | actors | fatalities',
+    ...rows,
+    ...(events.length > rows.length ? [`(${events.length - rows.length} older events omitted)`] : []),
+  ].join('\n');
+};
@@ -0,0 +1,164 @@
+import { FunctionCall, FunctionDeclaration, Type } from "@google/genai";
+import { AnalysisResult, ConflictEvent, ConflictType, VIEW_TABS, ViewTab } from "../types";
+import { loadBoundaries } from "./boundaries";
+import { coerceConflictType } from "./validation";
+
+/** South-west and north-east corners, as Leaflet expects them */
+export type LatLngBounds = [[number, number], [number, number]];
+
+/**
+ * What Overwatch is allowed to do on screen. App supplies these so calls
+ * go through the same state updates as the sidebar and tabs.
+ */
+export interface LiveToolActions {
+  searchConflicts: (query: string) => Promise<AnalysisResult | null>;
+  flyTo: (bounds: LatLngBounds) => void;
+  filterByType: (type: ConflictType | null) => void;
+  getCurrentSummary: () => Record<string, unknown>;
+  switchTab: (tab: ViewTab) => void;
+  getEvents: () => ConflictEvent[];
+}
+
+export const LIVE_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'search_conflicts',
+    description: "Run a new conflict analysis for a natural-language query and load it on the map and analytics. Returns the new summary.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: "e.g. 'Battles near Gao, Mali in the last month'" },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'fly_to',
+    description: "Move the map to a place: a location, region or country present in the current data, or any country.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        location: { type: Type.STRING, description: "Place name, e.g. 'Gao' or 'Burkina Faso'" },
+      },
+      required: ['location'],
+    },
+  },
+  {
+    name: 'filter_by_type',
+    description: "Show only one event type on the map and in analytics, or all types again.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        type: {
+          type: Type.STRING,
+          enum: [...Object.values(ConflictType), 'all'],
+          description: "Event type, or 'all' to clear the type filter",
+        },
+      },
+      required: ['type'],
+    },
+  },
+  {
+    name: 'get_current_summary',
+    description: "Get what the operator is currently looking at: query, summary, trend, key actors and totals.",
+  },
+  {
+    name: 'switch_tab',
+    description: "Switch the main view.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        tab: { type: Type.STRING, enum: VIEW_TABS },
+      },
+      required: ['tab'],
+    },
+  },
+];
+
+// Small padding so a single point still gives a usable view
+const PAD_DEGREES = 0.25;
+
+// One reduce pass rather than spreading: matches and outlines can exceed the argument limit
+const boundsOf = (points: [number, number][]): LatLngBounds => {
+  const [[south, west], [north, east]] = points.reduce<LatLngBounds>(
+    ([[s, w], [n, e]], [lat, lng]) => [[Math.min(s, lat), Math.min(w, lng)], [Math.max(n, lat), Math.max(e, lng)]],
+    [[Infinity, Infinity], [-Infinity, -Infinity]]
+  );
+  return [
+    [south - PAD_DEGREES, west - PAD_DEGREES],
+    [north + PAD_DEGREES, east + PAD_DEGREES],
+  ];
+};
+
+/**
+ * Resolves a place name without an external geocoder: first against the
+ * loaded events (location, admin-1, country), then against country outlines.
+ */
+export const resolveLocation = async (name: string, events: ConflictEvent[]): Promise<LatLngBounds | null> => {
+  const needle = name.trim().toLowerCase();
+  if (!needle) return null;
+
+  const fields: ((e: ConflictEvent) => string | undefined)[] = [e => e.location, e => e.admin1, e => e.country];
+  for (const field of fields) {
+    const matches = events.filter(e => field(e)?.toLowerCase() === needle);
+    if (matches.length > 0) return boundsOf(matches.map(e => [e.latitude, e.longitude]));
+  }
+
+  try {
+    const countries = await loadBoundaries('country');
+    const feature = countries.features.find(f => f.properties.name.toLowerCase() === needle);
+    if (!feature) return null;
+    const polygons = feature.geometry.type === 'Polygon'
+      ? [feature.geometry.coordinates as [number, number][][]]
+      : feature.geometry.coordinates as [number, number][][][];
+    return boundsOf(polygons.flatMap(([outer]) => outer.map(([lng, lat]): [number, number] => [lat, lng])));
+  } catch (error) {
+    console.error("Error resolving location:", error);
+    return null;
+  }
+};
+
+/**
+ * Executes one function call from the Live session and returns the
+ * response payload sent back to the model. Failures are reported to the
+ * model as `{ error }` rather than thrown, so it can tell the operator.
+ */
+export const runLiveToolCall = async (call: FunctionCall, actions: LiveToolActions): Promise<Record<string, unknown>> => {
+  const args = call.args || {};
+  try {
+    switch (call.name) {
+      case 'search_conflicts': {
+        const result = await actions.searchConflicts(String(args.query || ''));
+        if (!result) return { error: "Search failed" };
+        return { summary: result.summary, trend: result.trend, keyActors: result.keyActors, eventCount: result.events.length };
+      }
+      case 'fly_to': {
+        const location = String(args.location || '');
+        const bounds = await resolveLocation(location, actions.getEvents());
+        if (!bounds) return { error: `Could not find ${location} in the current data or country list` };
+        actions.flyTo(bounds);
+        return { ok: true, location };
+      }
+      case 'filter_by_type': {
+        const value = String(args.type || '');
+        const type = value.toLowerCase() === 'all' ? null : coerceConflictType(value);
+        if (value.toLowerCase() !== 'all' && !type) return { error: `Unknown event type ${value}` };
+        actions.filterByType(type);
+        const events = actions.getEvents();
+        return { ok: true, type: type ?? 'all', matchingEvents: type ? events.filter(e => e.type === type).length : events.length };
+      }
+      case 'get_current_summary':
+        return actions.getCurrentSummary();
+      case 'switch_tab': {
+        const tab = String(args.tab) as ViewTab;
+        if (!VIEW_TABS.includes(tab)) return { error: `Unknown tab ${args.tab}` };
+        actions.switchTab(tab);
+        return { ok: true, tab };
+      }
+      default:
+        return { error: `Unknown function ${call.name}` };
+    }
+  } catch (error) {
+    console.error(`Error running ${call.name}:`, error);
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, bytesToBase64, createResampler, createRingBuffer, floatToInt16, int16ToFloat } from './pcm';
+
+const sine = (frequency: number, rate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / rate));
+
+// Cuts a signal into uneven blocks, like the 128-frame render quanta and network chunks the resampler sees
+const inChunks = (signal: Float32Array, sizes: number[]) => {
+  const chunks: Float32Array[] = [];
+  for (let at = 0, i = 0; at < signal.length; i++) {
+    const size = sizes[i % sizes.length];
+    chunks.push(signal.subarray(at, at + size));
+    at += size;
+  }
+  return chunks;
+};
+
+const concat = (parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((at, p) => (out.set(p, at), at + p.length), 0);
+  return out;
+};
+
+// Upward zero crossings per second
+const estimateFrequency = (signal: Float32Array, rate: number) => {
+  let crossings = 0;
+  for (let i = 1; i < signal.length; i++) {
+    if (signal[i - 1] < 0 && signal[i] >= 0) crossings++;
+  }
+  return crossings / (signal.length / rate);
+};
+
+describe('createResampler', () => {
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [24000, 48000],
+    [24000, 44100],
+  ])('resamples a sine from %i Hz to %i Hz keeping length and pitch', (from, to) => {
+    const input = sine(440, from, from); // one second
+    const output = createResampler(from, to).process(input);
+
+    // Samples past the last input wait for the next chunk, at most one input step's worth
+    expect(output.length).toBeLessThanOrEqual(to);
+    expect(to - output.length).toBeLessThanOrEqual(Math.ceil(to / from) + 1);
+    expect(estimateFrequency(output, to)).toBeCloseTo(440, -1);
+
+    const expected = sine(440, to, output.length);
+    const maxError = output.reduce((max, v, i) => Math.max(max, Math.abs(v - expected[i])), 0);
+    expect(maxError).toBeLessThan(0.01);
+  });
+
+  it('gives the same output for a chunked stream as for one buffer', () => {
+    const input = sine(1000, 48000, 4800);
+    const whole = createResampler(48000, 16000).process(input);
+
+    const resampler = createResampler(48000, 16000);
+    const chunked = concat(inChunks(input, [128, 7, 1, 300]).map(resampler.process));
+
+    expect(chunked.length).toBe(whole.length);
+    chunked.forEach((v, i) => expect(v).toBeCloseTo(whole[i], 5));
+  });
+
+  it('passes samples through unchanged at equal rates', () => {
+    const input = sine(440, 16000, 160);
+    const output = createResampler(16000, 16000).process(input);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('starts from silence again after reset', () => {
+    const resampler = createResampler(48000, 16000);
+    const input = sine(440, 48000, 480);
+    const first = resampler.process(input);
+    resampler.process(new Float32Array(5).fill(1));
+    resampler.reset();
+    expect(resampler.process(input)).toEqual(first);
+  });
+});
+
+describe('floatToInt16 / int16ToFloat', () => {
+  it('maps full scale onto the int16 range', () => {
+    expect(Array.from(floatToInt16(Float32Array.of(-1, 0, 1)))).toEqual([-32768, 0, 32767]);
+  });
+
+  it('clips out-of-range samples instead of wrapping', () => {
+    expect(Array.from(floatToInt16(Float32Array.of(-3, -1.0001, 1.0001, 2)))).toEqual([-32768, -32768, 32767, 32767]);
+  });
+
+  // Encoding scales positives by 0x7fff and decoding divides by 0x8000, which adds up to one more step
+  it('round-trips a signal within two quantisation steps', () => {
+    const input = sine(440, 16000, 1600).map(v => v * 0.8);
+    const output = int16ToFloat(floatToInt16(input));
+    output.forEach((v, i) => expect(Math.abs(v - input[i])).toBeLessThanOrEqual(2 / 0x7fff));
+  });
+
+  it('decodes int16 extremes to [-1, 1)', () => {
+    const output = int16ToFloat(Int16Array.of(-32768, 0, 32767));
+    expect(output[0]).toBe(-1);
+    expect(output[1]).toBe(0);
+    expect(output[2]).toBeLessThan(1);
+    expect(output[2]).toBeCloseTo(1, 4);
+  });
+});
+
+describe('bytesToBase64 / base64ToBytes', () => {
+  it.each([0, 1, 2, 3, 4, 5, 255, 3200])('matches Buffer for %i bytes', (length) => {
+    const bytes = Uint8Array.from({ length }, (_, i) => (i * 37 + 11) & 0xff);
+    const encoded = bytesToBase64(bytes);
+    expect(encoded).toBe(Buffer.from(bytes).toString('base64'));
+    expect(base64ToBytes(encoded)).toEqual(bytes);
+  });
+
+  it('round-trips PCM audio', () => {
+    const pcm = floatToInt16(sine(440, 16000, 1600));
+    const decoded = base64ToBytes(bytesToBase64(new Uint8Array(pcm.buffer)));
+    expect(new Int16Array(decoded.buffer)).toEqual(pcm);
+  });
+});
+
+describe('createRingBuffer', () => {
+  it('reads back what was written, in order, across the wrap-around', () => {
+    const ring = createRingBuffer(8);
+    ring.write(Float32Array.of(1, 2, 3, 4, 5, 6));
+    const first = new Float32Array(4);
+    expect(ring.read(first)).toBe(4);
+    expect(Array.from(first)).toEqual([1, 2, 3, 4]);
+
+    // Start is now at 4, so this write wraps past the end of the storage
+    expect(ring.write(Float32Array.of(7, 8, 9, 10, 11))).toBe(0);
+    expect(ring.available()).toBe(7);
+
+    const rest = new Float32Array(10);
+    expect(ring.read(rest)).toBe(7);
+    expect(Array.from(rest.subarray(0, 7))).toEqual([5, 6, 7, 8, 9, 10, 11]);
+    expect(ring.available()).toBe(0);
+  });
+
+  it('drops the oldest samples on overflow and reports how many', () => {
+    const ring = createRingBuffer(4);
+    expect(ring.write(Float32Array.of(1, 2, 3))).toBe(0);
+    expect(ring.write(Float32Array.of(4, 5, 6))).toBe(2);
+    expect(ring.available()).toBe(4);
+
+    const target = new Float32Array(4);
+    ring.read(target);
+    expect(Array.from(target)).toEqual([3, 4, 5, 6]);
+  });
+
+  it('reads only what is available and empties on clear', () => {
+    const ring = createRingBuffer(4);
+    ring.write(Float32Array.of(1, 2));
+    const target = new Float32Array(4);
+    expect(ring.read(target)).toBe(2);
+    expect(ring.read(target)).toBe(0);
+
+    ring.write(Float32Array.of(3, 4, 5));
+    ring.clear();
+    expect(ring.available()).toBe(0);
+    expect(ring.read(target)).toBe(0);
+  });
+});
@@ -0,0 +1,137 @@
+// PCM helpers shared by the main thread and the audio worklets. Each one is
+// self-contained (no imports, no outer references) because the worklet
+// source is assembled from their `toString()`; see audioWorklets.ts.
+
+export interface Resampler {
+  process: (input: Float32Array) => Float32Array;
+  reset: () => void;
+}
+
+/**
+ * Linear-interpolating resampler that keeps its phase between chunks, so a
+ * stream cut into arbitrary blocks resamples the same as one long buffer.
+ */
+export const createResampler = (fromRate: number, toRate: number): Resampler => {
+  const step = fromRate / toRate;
+  // Position of the next output sample, relative to the start of the next
+  // input chunk; -1 means "between the previous chunk's last sample and this one's first"
+  let position = 0;
+  // Last input sample of the previous chunk, at index -1
+  let previous = 0;
+
+  return {
+    process: (input: Float32Array) => {
+      if (fromRate === toRate) return input.slice();
+      // Samples that would need the next chunk to interpolate wait for it
+      const count = Math.max(0, Math.ceil((input.length - 1 - position) / step));
+      const output = new Float32Array(count);
+      for (let i = 0; i < count; i++) {
+        const at = position + i * step;
+        const index = Math.floor(at);
+        const a = index < 0 ? previous : input[index];
+        output[i] = a + (input[index + 1] - a) * (at - index);
+      }
+      position = position + count * step - input.length;
+      if (input.length > 0) previous = input[input.length - 1];
+      return output;
+    },
+    reset: () => {
+      position = 0;
+      previous = 0;
+    },
+  };
+};
+
+export interface RingBuffer {
+  write: (samples: Float32Array) => number; // samples dropped to make room
+  read: (target: Float32Array) => number; // samples copied
+  available: () => number;
+  clear: () => void;
+}
+
+/**
+ * Fixed-size FIFO of float samples. When full, the oldest samples are
+ * overwritten so the stream stays current.
+ */
+export const createRingBuffer = (capacity: number): RingBuffer => {
+  const data = new Float32Array(capacity);
+  let start = 0;
+  let size = 0;
+
+  return {
+    write: (samples: Float32Array) => {
+      let dropped = 0;
+      for (let i = 0; i < samples.length; i++) {
+        data[(start + size) % capacity] = samples[i];
+        if (size < capacity) {
+          size++;
+        } else {
+          start = (start + 1) % capacity;
+          dropped++;
+        }
+      }
+      return dropped;
+    },
+    read: (target: Float32Array) => {
+      const count = Math.min(target.length, size);
+      for (let i = 0; i < count; i++) {
+        target[i] = data[(start + i) % capacity];
+      }
+      start = (start + count) % capacity;
+      size -= count;
+      return count;
+    },
+    available: () => size,
+    clear: () => {
+      start = 0;
+      size = 0;
+    },
+  };
+};
+
+// Clamped, so a clipped mic can't wrap around to the opposite sign
+export const floatToInt16 = (input: Float32Array): Int16Array => {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return output;
+};
+
+export const int16ToFloat = (input: Int16Array): Float32Array => {
+  const output = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    output[i] = input[i] / 0x8000;
+  }
+  return output;
+};
+
+// btoa isn't available inside AudioWorkletGlobalScope
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += alphabet[(n >> 18) & 63] + alphabet[(n >> 12) & 63] + alphabet[(n >> 6) & 63] + alphabet[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i] << 16;
+    out += alphabet[(n >> 18) & 63] + alphabet[(n >> 12) & 63] + '==';
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += alphabet[(n >> 18) & 63] + alphabet[(n >> 12) & 63] + alphabet[(n >> 6) & 63] + '=';
+  }
+  return out;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
@@ -0,0 +1,67 @@
+import { ConflictEvent, EventOrigin, EventProvenance, GeoPrecision } from "../types";
+
+export const ORIGIN_LABELS: Record<EventOrigin, string> = {
+  acled: 'ACLED',
+  gemini: 'Gemini (synthetic)',
+  imported: 'Imported file',
+};
+
+export const GEO_PRECISION_LABELS: Record<GeoPrecision, string> = {
+  exact: 'Exact location',
+  approximate: 'Near the named place',
+  region: 'Regional centroid',
+  unknown: 'Not stated',
+};
+
+// ACLED's geo_precision codes: 1 = the town itself, 2 = near it, 3 = only the wider region
+const ACLED_GEO_PRECISION: Record<string, GeoPrecision> = {
+  '1': 'exact',
+  '2': 'approximate',
+  '3': 'region',
+};
+
+// Used when a source gives no confidence of its own
+const PRECISION_CONFIDENCE: Record<GeoPrecision, number> = {
+  exact: 0.9,
+  approximate: 0.75,
+  region: 0.5,
+  unknown: 0.4,
+};
+
+/**
+ * Reads a geo-precision given either as ACLED's numeric code or by name.
+ */
+export const coerceGeoPrecision = (value: unknown): GeoPrecision => {
+  const key = String(value ?? '').trim().toLowerCase();
+  if (ACLED_GEO_PRECISION[key]) return ACLED_GEO_PRECISION[key];
+  return (Object.keys(GEO_PRECISION_LABELS) as GeoPrecision[]).find(p => p === key) ?? 'unknown';
+};
+
+export interface ProvenanceFields {
+  recordId?: unknown;
+  geoPrecision?: unknown;
+  confidence?: unknown;
+  rawUrl?: unknown;
+}
+
+/**
+ * Builds an event's provenance from whatever the source supplied. Confidence
+ * accepts 0-1 or a percentage and falls back to an estimate from geo-precision.
+ */
+export const createProvenance = (origin: EventOrigin, fields: ProvenanceFields = {}): EventProvenance => {
+  const geoPrecision = coerceGeoPrecision(fields.geoPrecision);
+  const given = fields.confidence === '' || fields.confidence === null ? NaN : Number(fields.confidence);
+  const confidence = isFinite(given) ? (given > 1 ? given / 100 : given) : PRECISION_CONFIDENCE[geoPrecision];
+  const recordId = String(fields.recordId ?? '').trim();
+  const rawUrl = String(fields.rawUrl ?? '').trim();
+
+  return {
+    origin,
+    recordId: recordId || undefined,
+    geoPrecision,
+    confidence: Math.min(1, Math.max(0, confidence)),
+    rawUrl: /^https?:\/\//i.test(rawUrl) ? rawUrl : undefined,
+  };
+};
+
+export const isSynthetic = (event: ConflictEvent) => event.provenance?.origin === 'gemini';
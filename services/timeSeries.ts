@@ -0,0 +1,136 @@
+import { AnalysisResult, ConflictEvent, ConflictType } from "../types";
+import { eventDayRange, formatDay, toDayNumber } from "./dates";
+
+export type WeeklyTypeRow = { week: number; label: string } & Partial<Record<ConflictType, number>>;
+
+export interface FatalityPoint {
+  bucket: number; // first day of the bucket
+  label: string;
+  fatalities: number;
+  rollingAverage: number;
+}
+
+export interface PeriodTotals {
+  start: number;
+  end: number; // inclusive day numbers
+  events: number;
+  fatalities: number;
+}
+
+export interface PeriodComparison {
+  days: number;
+  current: PeriodTotals;
+  previous: PeriodTotals;
+  eventChange: number | null;    // fractional change, null when previous is empty
+  fatalityChange: number | null;
+  trend: AnalysisResult['trend'];
+}
+
+// Day numbers start on a Thursday (1970-01-01); shift so weeks start on Monday
+const weekStart = (day: number) => day - ((day + 3) % 7);
+
+const datedEvents = (events: ConflictEvent[]) =>
+  events
+    .map(event => ({ event, day: toDayNumber(event.date) }))
+    .filter(({ day }) => !isNaN(day));
+
+/**
+ * Event counts per ISO week, one column per ConflictType, with empty weeks filled
+ * so stacked areas don't interpolate across gaps.
+ */
+export const weeklyEventsByType = (events: ConflictEvent[]): WeeklyTypeRow[] => {
+  const dated = datedEvents(events);
+  if (dated.length === 0) return [];
+
+  const rows = new Map<number, WeeklyTypeRow>();
+  const range = eventDayRange(events.map(e => e.date))!;
+  for (let week = weekStart(range.start); week <= range.end; week += 7) {
+    rows.set(week, { week, label: formatDay(week) });
+  }
+
+  dated.forEach(({ event, day }) => {
+    const row = rows.get(weekStart(day))!;
+    row[event.type] = (row[event.type] || 0) + 1;
+  });
+
+  return [...rows.values()];
+};
+
+/**
+ * Fatalities per bucket with a trailing rolling average. Buckets are days for
+ * spans up to six months and weeks beyond that.
+ */
+export const fatalitySeries = (events: ConflictEvent[], window = 7): FatalityPoint[] => {
+  const range = eventDayRange(events.map(e => e.date));
+  if (!range) return [];
+
+  const size = range.end - range.start > 180 ? 7 : 1;
+  const bucketOf = (day: number) => size === 7 ? weekStart(day) : day;
+
+  const totals = new Map<number, number>();
+  for (let bucket = bucketOf(range.start); bucket <= range.end; bucket += size) totals.set(bucket, 0);
+  datedEvents(events).forEach(({ event, day }) => {
+    const bucket = bucketOf(day);
+    totals.set(bucket, (totals.get(bucket) || 0) + event.fatalities);
+  });
+
+  const values = [...totals.entries()];
+  // Weekly buckets smooth over four weeks instead
+  const span = size === 7 ? 4 : window;
+  return values.map(([bucket, fatalities], i) => {
+    const slice = values.slice(Math.max(0, i - span + 1), i + 1);
+    return {
+      bucket,
+      label: formatDay(bucket),
+      fatalities,
+      rollingAverage: Math.round((slice.reduce((acc, [, f]) => acc + f, 0) / slice.length) * 10) / 10,
+    };
+  });
+};
+
+const totalsBetween = (dated: { event: ConflictEvent; day: number }[], start: number, end: number): PeriodTotals => {
+  const inRange = dated.filter(({ day }) => day >= start && day <= end);
+  return {
+    start,
+    end,
+    events: inRange.length,
+    fatalities: inRange.reduce((acc, { event }) => acc + event.fatalities, 0),
+  };
+};
+
+const change = (current: number, previous: number) => previous > 0 ? (current - previous) / previous : null;
+
+// Share of events/fatalities that must move between periods to call a direction
+const TREND_THRESHOLD = 0.25;
+
+/**
+ * Splits the covered span into two equal periods ending on the latest event
+ * and compares them. The derived trend is the data's answer to the model's label.
+ */
+export const comparePeriods = (events: ConflictEvent[]): PeriodComparison | null => {
+  const range = eventDayRange(events.map(e => e.date));
+  if (!range || range.end === range.start) return null;
+
+  const days = Math.max(1, Math.ceil((range.end - range.start + 1) / 2));
+  const dated = datedEvents(events);
+  const current = totalsBetween(dated, range.end - days + 1, range.end);
+  const previous = totalsBetween(dated, range.end - 2 * days + 1, range.end - days);
+
+  const eventChange = change(current.events, previous.events);
+  const fatalityChange = change(current.fatalities, previous.fatalities);
+
+  let trend: AnalysisResult['trend'] = 'stable';
+  if (eventChange === null ? current.events > 0 : eventChange > TREND_THRESHOLD) {
+    trend = 'escalating';
+  } else if (eventChange !== null && eventChange < -TREND_THRESHOLD) {
+    trend = 'de-escalating';
+  } else if (fatalityChange !== null && Math.abs(fatalityChange) > TREND_THRESHOLD * 2) {
+    // Steady tempo but sharply shifting lethality
+    trend = 'volatile';
+  }
+
+  return { days, current, previous, eventChange, fatalityChange, trend };
+};
+
+export const formatChange = (value: number | null) =>
+  value === null ? 'n/a' : `${value > 0 ? '+' : ''}${Math.round(value * 100)}%`;
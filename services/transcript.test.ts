@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptTurn } from '../types';
+import { TranscriptUpdate, applyTranscriptUpdate } from './transcript';
+
+const run = (updates: TranscriptUpdate[]) =>
+  updates.reduce<TranscriptTurn[]>((turns, update, i) => applyTranscriptUpdate(turns, update, i), []);
+
+const overwatch = (text: string): TranscriptUpdate => ({ kind: 'text', speaker: 'overwatch', text });
+const operator = (text: string): TranscriptUpdate => ({ kind: 'text', speaker: 'operator', text });
+
+describe('applyTranscriptUpdate', () => {
+  it('joins chunks from the same speaker and starts a new turn on a change of speaker', () => {
+    const turns = run([operator('Show '), operator('Mali'), overwatch('Loading '), overwatch('Mali.')]);
+    expect(turns.map(t => [t.speaker, t.text, t.complete])).toEqual([
+      ['operator', 'Show Mali', true],
+      ['overwatch', 'Loading Mali.', false],
+    ]);
+  });
+
+  it('marks the open Overwatch turn as interrupted and closes it', () => {
+    const turns = run([overwatch('There were forty'), { kind: 'interrupted' }, operator('Stop')]);
+    expect(turns[0]).toMatchObject({ speaker: 'overwatch', interrupted: true, complete: true });
+    expect(turns[1]).toMatchObject({ speaker: 'operator', interrupted: false });
+  });
+
+  it('marks Overwatch as interrupted when the operator text closed its turn first', () => {
+    const turns = run([overwatch('There were forty'), operator('Stop'), { kind: 'interrupted' }]);
+    expect(turns[0]).toMatchObject({ speaker: 'overwatch', interrupted: true });
+    expect(turns[1]).toMatchObject({ speaker: 'operator', interrupted: false });
+  });
+
+  it('does not mark a reply Overwatch had already finished', () => {
+    const turns = run([overwatch('Done.'), { kind: 'turnComplete' }, operator('Next'), { kind: 'interrupted' }]);
+    expect(turns[0]).toMatchObject({ interrupted: false, finished: true });
+  });
+
+  it('does not count an operator turnComplete as Overwatch finishing', () => {
+    const typed: TranscriptUpdate = { kind: 'text', speaker: 'operator', text: 'Stop', via: 'text' };
+    const turns = run([overwatch('There were'), typed, { kind: 'turnComplete' }, { kind: 'interrupted' }]);
+    expect(turns[0]).toMatchObject({ interrupted: true });
+    expect(turns[0].finished).toBeUndefined();
+  });
+
+  it('ignores an interruption with no Overwatch turn', () => {
+    const turns = run([operator('Hello'), { kind: 'interrupted' }]);
+    expect(turns).toHaveLength(1);
+    expect(turns[0].interrupted).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { LiveTranscript, TranscriptSpeaker, TranscriptTurn, TranscriptVia } from "../types";
+
+/** What LiveClient reports as transcription streams in */
+export type TranscriptUpdate =
+  | { kind: 'text'; speaker: TranscriptSpeaker; text: string; via?: TranscriptVia }
+  | { kind: 'turnComplete' }
+  | { kind: 'interrupted' };
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  operator: 'Operator',
+  overwatch: 'Overwatch',
+};
+
+const closeTurns = (turns: TranscriptTurn[]) =>
+  turns.map(t => t.complete ? t : { ...t, complete: true });
+
+/**
+ * Folds one update into the transcript. Text chunks extend the open turn
+ * of the same speaker; a change of speaker, the end of a model turn or an
+ * interruption closes it. An interruption marks Overwatch's latest reply
+ * unless Overwatch had already finished it.
+ */
+export const applyTranscriptUpdate = (turns: TranscriptTurn[], update: TranscriptUpdate, at = Date.now()): TranscriptTurn[] => {
+  switch (update.kind) {
+    case 'text': {
+      const via = update.via ?? 'voice';
+      const last = turns[turns.length - 1];
+      if (last && !last.complete && last.speaker === update.speaker && last.via === via) {
+        return [...turns.slice(0, -1), { ...last, text: last.text + update.text }];
+      }
+      return [
+        ...closeTurns(turns),
+        { id: `turn-${at}-${turns.length}`, speaker: update.speaker, via, text: update.text, startedAt: at, complete: false, interrupted: false },
+      ];
+    }
+    case 'turnComplete': {
+      const last = turns[turns.length - 1];
+      const ended = last && !last.complete && last.speaker === 'overwatch' ? last : null;
+      return closeTurns(turns.map(t => t === ended ? { ...t, finished: true } : t));
+    }
+    case 'interrupted': {
+      // The operator's words may already have closed Overwatch's turn by changing speaker
+      const index = turns.map(t => t.speaker).lastIndexOf('overwatch');
+      if (index === -1 || turns[index].finished || turns[index].interrupted) return turns;
+      return closeTurns(turns.map((t, i) => i === index ? { ...t, interrupted: true } : t));
+    }
+  }
+};
+
+const formatTime = (ms: number) => new Date(ms).toISOString().slice(11, 19);
+
+export const toTranscriptMarkdown = (transcript: LiveTranscript): string => {
+  const lines = [
+    '# Overwatch session',
+    '',
+    `- Started: ${new Date(transcript.startedAt).toISOString()}`,
+    `- Ended: ${new Date(transcript.endedAt).toISOString()}`,
+    `- Analysis: ${transcript.query || 'none'}`,
+    '',
+  ];
+  transcript.turns.forEach(turn => {
+    const text = turn.text.trim() || '_(inaudible)_';
+    const notes = [turn.via === 'text' && '_(typed)_', turn.interrupted && '_(interrupted)_'].filter(Boolean).join(' ');
+    lines.push(`**[${formatTime(turn.startedAt)}] ${SPEAKER_LABELS[turn.speaker]}:** ${text}${notes ? ` ${notes}` : ''}`, '');
+  });
+  return lines.join('\n');
+};
+
+export const toTranscriptJson = (transcript: LiveTranscript): string => JSON.stringify({
+  ...transcript,
+  turns: transcript.turns.map(({ id, speaker, via, text, startedAt, interrupted }) => ({
+    id,
+    speaker,
+    via,
+    text: text.trim(),
+    startedAt: new Date(startedAt).toISOString(),
+    interrupted,
+  })),
+  startedAt: new Date(transcript.startedAt).toISOString(),
+  endedAt: new Date(transcript.endedAt).toISOString(),
+}, null, 2);
@@ -0,0 +1,76 @@
+import { ConflictFilter, ConflictType, MapViewport, VIEW_TABS, ViewTab } from "../types";
+import { EMPTY_FILTER, isEmptyFilter } from "./filterEngine";
+import { coerceConflictType } from "./validation";
+
+/**
+ * Everything needed to reproduce a view from a link. Parameters are kept
+ * short and human-readable, e.g.
+ * ?q=Sahel+insurgency&country=Mali&type=Battle&from=2024-01-01&map=6/14.5/-2.1&tab=map&event=evt-3
+ */
+export interface UrlState {
+  query?: string;
+  filter?: ConflictFilter;
+  viewport?: MapViewport;
+  tab?: ViewTab;
+  eventId?: string;
+}
+
+// OSM-style zoom/lat/lng
+const parseViewport = (value: string | null): MapViewport | undefined => {
+  const [zoom, lat, lng] = (value || '').split('/').map(Number);
+  if ([zoom, lat, lng].some(n => !Number.isFinite(n))) return undefined;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  return { center: [lat, lng], zoom };
+};
+
+const formatViewport = ({ center: [lat, lng], zoom }: MapViewport) =>
+  `${Math.round(zoom)}/${lat.toFixed(4)}/${lng.toFixed(4)}`;
+
+const parseFilter = (params: URLSearchParams): ConflictFilter | undefined => {
+  const filter: ConflictFilter = {
+    countries: params.getAll('country'),
+    adminRegions: params.getAll('region'),
+    actors: params.getAll('actor'),
+    types: params.getAll('type')
+      .map(coerceConflictType)
+      .filter((t): t is ConflictType => t !== null),
+    startDate: params.get('from') || undefined,
+    endDate: params.get('to') || undefined,
+    minFatalities: Math.max(0, Number(params.get('minFatalities')) || 0),
+  };
+  return isEmptyFilter(filter) && !params.has('filter') ? undefined : filter;
+};
+
+export const parseUrlState = (params: URLSearchParams): UrlState => {
+  const tab = params.get('tab') as ViewTab | null;
+  return {
+    query: params.get('q') || undefined,
+    filter: parseFilter(params),
+    viewport: parseViewport(params.get('map')),
+    tab: tab && VIEW_TABS.includes(tab) ? tab : undefined,
+    eventId: params.get('event') || undefined,
+  };
+};
+
+export const toSearchParams = (state: UrlState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.query) params.set('q', state.query);
+
+  const filter = state.filter || EMPTY_FILTER;
+  if (state.filter && isEmptyFilter(filter)) {
+    // An explicitly empty filter still means "don't re-translate the query"
+    params.set('filter', 'none');
+  }
+  filter.countries.forEach(c => params.append('country', c));
+  filter.adminRegions.forEach(r => params.append('region', r));
+  filter.actors.forEach(a => params.append('actor', a));
+  filter.types.forEach(t => params.append('type', t));
+  if (filter.startDate) params.set('from', filter.startDate);
+  if (filter.endDate) params.set('to', filter.endDate);
+  if (filter.minFatalities > 0) params.set('minFatalities', String(filter.minFatalities));
+
+  if (state.viewport) params.set('map', formatViewport(state.viewport));
+  if (state.tab && state.tab !== 'map') params.set('tab', state.tab);
+  if (state.eventId) params.set('event', state.eventId);
+  return params;
+};
@@ -0,0 +1,53 @@
+// Energy-based voice activity detection over the 100 ms capture chunks.
+// Hysteresis and a hangover keep short pauses between words inside one turn.
+
+export type VoiceActivityEvent = 'start' | 'end' | null;
+
+export interface VoiceActivityDetector {
+  update: (level: number) => VoiceActivityEvent;
+  isActive: () => boolean;
+  reset: () => void;
+}
+
+export interface VoiceActivityOptions {
+  startLevel: number; // RMS that opens a turn
+  endLevel: number; // RMS below which a chunk counts as silence
+  startChunks: number; // loud chunks in a row needed to open
+  hangoverChunks: number; // quiet chunks in a row needed to close
+}
+
+export const DEFAULT_VAD_OPTIONS: VoiceActivityOptions = {
+  startLevel: 0.03,
+  endLevel: 0.015,
+  startChunks: 2,
+  hangoverChunks: 8,
+};
+
+export const createVoiceActivityDetector = (options: VoiceActivityOptions = DEFAULT_VAD_OPTIONS): VoiceActivityDetector => {
+  let active = false;
+  let loud = 0;
+  let quiet = 0;
+
+  return {
+    update: (level: number) => {
+      if (!active) {
+        loud = level >= options.startLevel ? loud + 1 : 0;
+        if (loud < options.startChunks) return null;
+        active = true;
+        quiet = 0;
+        return 'start';
+      }
+      quiet = level < options.endLevel ? quiet + 1 : 0;
+      if (quiet < options.hangoverChunks) return null;
+      active = false;
+      loud = 0;
+      return 'end';
+    },
+    isActive: () => active,
+    reset: () => {
+      active = false;
+      loud = 0;
+      quiet = 0;
+    },
+  };
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictType } from '../types';
+import { coerceConflictType, normalizeDate, validateAnalysisResult, validateEvent, validateEvents } from './validation';
+
+const rawEvent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'evt-1',
+  date: '2024-03-05',
+  type: 'Battle',
+  actor1: 'Army',
+  country: 'Mali',
+  location: 'Gao',
+  latitude: 16.27,
+  longitude: -0.04,
+  fatalities: 3,
+  description: 'Clash near Gao',
+  ...overrides,
+});
+
+const eventOf = (raw: unknown) => {
+  const check = validateEvent(raw);
+  if ('reason' in check) throw new Error(check.reason);
+  return check.event;
+};
+
+describe('validateEvent', () => {
+  it('clamps latitude and longitude into range', () => {
+    expect(eventOf(rawEvent({ latitude: 95, longitude: -200 }))).toMatchObject({ latitude: 90, longitude: -180 });
+    expect(eventOf(rawEvent({ latitude: '-91.5', longitude: '181' }))).toMatchObject({ latitude: -90, longitude: 180 });
+  });
+
+  it('rejects missing or non-numeric coordinates', () => {
+    expect(validateEvent(rawEvent({ latitude: '' }))).toEqual({ reason: 'Missing or non-numeric coordinates' });
+    expect(validateEvent(rawEvent({ longitude: 'east' }))).toEqual({ reason: 'Missing or non-numeric coordinates' });
+    expect(validateEvent(rawEvent({ latitude: null }))).toEqual({ reason: 'Missing or non-numeric coordinates' });
+  });
+
+  it('rounds fatalities and treats unreadable counts as zero', () => {
+    expect(eventOf(rawEvent({ fatalities: 2.6 })).fatalities).toBe(3);
+    expect(eventOf(rawEvent({ fatalities: -4 })).fatalities).toBe(0);
+    expect(eventOf(rawEvent({ fatalities: 'many' })).fatalities).toBe(0);
+  });
+
+  it('rejects unknown types, unreadable dates and missing required fields', () => {
+    expect(validateEvent(rawEvent({ type: 'Parade' }))).toEqual({ reason: 'Unknown event type "Parade"' });
+    expect(validateEvent(rawEvent({ date: 'soon' }))).toEqual({ reason: 'Unreadable date "soon"' });
+    expect(validateEvent(rawEvent({ actor1: ' ', location: '' }))).toEqual({ reason: 'Missing actor1, location' });
+    expect(validateEvent('Battle in Gao')).toEqual({ reason: 'Not an object' });
+  });
+});
+
+describe('coerceConflictType', () => {
+  it.each([
+    ['Battle', ConflictType.BATTLE],
+    ['battles', ConflictType.BATTLE],
+    ['Armed clash', ConflictType.BATTLE],
+    ['Protests', ConflictType.PROTEST],
+    ['Explosions / remote-violence', ConflictType.EXPLOSION],
+    ['Explosion/Remote Violence', ConflictType.EXPLOSION],
+    ['Violence against civilian', ConflictType.VIOLENCE_AGAINST_CIVILIANS],
+    ['Strategic developments', ConflictType.STRATEGIC_DEVELOPMENT],
+    ['Riotz', ConflictType.RIOT],
+    ['Batle', ConflictType.BATTLE],
+  ])('maps "%s" onto %s', (value, type) => {
+    expect(coerceConflictType(value)).toBe(type);
+  });
+
+  it.each(['Parade', '', '  ', 'Election'])('rejects "%s"', (value) => {
+    expect(coerceConflictType(value)).toBeNull();
+  });
+
+  it('rejects non-strings', () => {
+    expect(coerceConflictType(3)).toBeNull();
+    expect(coerceConflictType(null)).toBeNull();
+  });
+});
+
+describe('normalizeDate', () => {
+  it.each([
+    ['2024-03-05', '2024-03-05'],
+    ['2024-03-05T14:30:00Z', '2024-03-05'],
+    [' 2024-03-05 ', '2024-03-05'],
+    ['March 5, 2024', '2024-03-05'],
+    ['5 March 2024', '2024-03-05'],
+    ['2024/03/05', '2024-03-05'],
+  ])('reads "%s" as %s', (value, expected) => {
+    expect(normalizeDate(value)).toBe(expected);
+  });
+
+  it.each(['2024-02-30', '2023-13-01', 'yesterday', ''])('rejects "%s"', (value) => {
+    expect(normalizeDate(value)).toBeNull();
+  });
+
+  it('rejects values that are not strings or numbers', () => {
+    expect(normalizeDate(null)).toBeNull();
+    expect(normalizeDate({ date: '2024-03-05' })).toBeNull();
+  });
+});
+
+describe('validateEvents', () => {
+  it('drops repeated ids and reports them as duplicates', () => {
+    const { events, rejected } = validateEvents([
+      rawEvent({ id: 'a' }),
+      rawEvent({ id: 'b' }),
+      rawEvent({ id: 'a', location: 'Kidal' }),
+    ]);
+    expect(events.map(e => e.id)).toEqual(['a', 'b']);
+    expect(events[0].location).toBe('Gao');
+    expect(rejected).toEqual([{ index: 2, id: 'a', reason: 'Duplicate id' }]);
+  });
+
+  it('numbers events without an id by position', () => {
+    const { events } = validateEvents([rawEvent({ id: '' }), rawEvent({ id: undefined })]);
+    expect(events.map(e => e.id)).toEqual(['evt-1', 'evt-2']);
+  });
+
+  it('keeps the index and raw id of rejected records', () => {
+    const { events, rejected } = validateEvents([rawEvent({ id: 'x', type: 'Parade' }), rawEvent({ id: 'y' })]);
+    expect(events.map(e => e.id)).toEqual(['y']);
+    expect(rejected).toEqual([{ index: 0, id: 'x', reason: 'Unknown event type "Parade"' }]);
+  });
+});
+
+describe('validateAnalysisResult', () => {
+  it('repairs the trend and key actors and lists rejected events', () => {
+    const result = validateAnalysisResult({
+      summary: ' Fighting continued. ',
+      trend: 'Escalating',
+      keyActors: ['Army', 'Army', '', 7],
+      events: [rawEvent(), { type: 'Battle' }],
+    });
+    expect(result).toMatchObject({ summary: 'Fighting continued.', trend: 'escalating', keyActors: ['Army', '7'] });
+    expect(result.events).toHaveLength(1);
+    expect(result.rejected).toHaveLength(1);
+  });
+
+  it('falls back to a stable trend and no events', () => {
+    expect(validateAnalysisResult({ trend: 'sideways' })).toMatchObject({ trend: 'stable', events: [], keyActors: [] });
+  });
+
+  it('throws when the response is not an object', () => {
+    expect(() => validateAnalysisResult('nope')).toThrow('Analysis response is not an object');
+  });
+});
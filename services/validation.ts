@@ -0,0 +1,200 @@
+import { AnalysisResult, ConflictEvent, ConflictType, EventOrigin, RejectedRecord } from "../types";
+import { createProvenance } from "./provenance";
+
+const TRENDS: AnalysisResult['trend'][] = ['escalating', 'de-escalating', 'stable', 'volatile'];
+
+// Compare type names on letters only, so "Explosions / remote-violence" still matches
+const squash = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+// Spellings seen from models and ACLED exports that aren't a simple edit away
+const TYPE_ALIASES: Record<string, ConflictType> = {
+  battles: ConflictType.BATTLE,
+  armedclash: ConflictType.BATTLE,
+  clash: ConflictType.BATTLE,
+  protests: ConflictType.PROTEST,
+  demonstration: ConflictType.PROTEST,
+  riots: ConflictType.RIOT,
+  mobviolence: ConflictType.RIOT,
+  explosion: ConflictType.EXPLOSION,
+  explosions: ConflictType.EXPLOSION,
+  explosionsremoteviolence: ConflictType.EXPLOSION,
+  remoteviolence: ConflictType.EXPLOSION,
+  airstrike: ConflictType.EXPLOSION,
+  violenceagainstcivilian: ConflictType.VIOLENCE_AGAINST_CIVILIANS,
+  attackoncivilians: ConflictType.VIOLENCE_AGAINST_CIVILIANS,
+  strategicdevelopments: ConflictType.STRATEGIC_DEVELOPMENT,
+  strategic: ConflictType.STRATEGIC_DEVELOPMENT,
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Maps a loosely spelled event type onto ConflictType, or null if nothing is close.
+ */
+export const coerceConflictType = (value: unknown): ConflictType | null => {
+  if (typeof value !== 'string') return null;
+  const key = squash(value);
+  if (!key) return null;
+
+  const types = Object.values(ConflictType);
+  const exact = types.find(t => squash(t) === key) ?? TYPE_ALIASES[key];
+  if (exact) return exact;
+
+  const candidates = [...types.map(t => [squash(t), t] as const), ...Object.entries(TYPE_ALIASES)];
+  let best: ConflictType | null = null;
+  let bestDistance = 3; // allow up to two edits
+  for (const [name, type] of candidates) {
+    const distance = levenshtein(key, name);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = type;
+    }
+  }
+  return best;
+};
+
+/**
+ * Normalises a date to YYYY-MM-DD, or returns null if it can't be read.
+ */
+export const normalizeDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const raw = String(value).trim();
+
+  // Already ISO; check it's a real calendar date
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(raw);
+  if (iso) {
+    const date = new Date(`${iso[1]}-${iso[2]}-${iso[3]}T00:00:00Z`);
+    return isNaN(date.getTime()) || date.getUTCDate() !== Number(iso[3]) ? null : `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const parsed = Date.parse(raw);
+  if (isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const text = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+type EventCheck = { event: ConflictEvent } | { reason: string };
+
+/**
+ * Checks a single raw event, repairing what can be repaired. With an origin,
+ * provenance is built from the raw id, geoPrecision, confidence and rawUrl.
+ */
+export const validateEvent = (raw: unknown, origin?: EventOrigin): EventCheck => {
+  if (!raw || typeof raw !== 'object') return { reason: 'Not an object' };
+  const record = raw as Record<string, unknown>;
+
+  const type = coerceConflictType(record.type);
+  if (!type) return { reason: `Unknown event type "${text(record.type)}"` };
+
+  const date = normalizeDate(record.date);
+  if (!date) return { reason: `Unreadable date "${text(record.date)}"` };
+
+  const latitude = Number(record.latitude);
+  const longitude = Number(record.longitude);
+  if (record.latitude === null || record.latitude === '' || !isFinite(latitude) ||
+      record.longitude === null || record.longitude === '' || !isFinite(longitude)) {
+    return { reason: 'Missing or non-numeric coordinates' };
+  }
+
+  const missing = (['actor1', 'country', 'location'] as const).filter(field => !text(record[field]));
+  if (missing.length) return { reason: `Missing ${missing.join(', ')}` };
+
+  const fatalities = Number(record.fatalities);
+
+  return {
+    event: {
+      id: text(record.id),
+      date,
+      type,
+      subType: text(record.subType) || undefined,
+      actor1: text(record.actor1),
+      actor2: text(record.actor2) || undefined,
+      country: text(record.country),
+      admin1: text(record.admin1) || undefined,
+      admin2: text(record.admin2) || undefined,
+      location: text(record.location),
+      latitude: clamp(latitude, -90, 90),
+      longitude: clamp(longitude, -180, 180),
+      fatalities: isFinite(fatalities) ? Math.max(0, Math.round(fatalities)) : 0,
+      description: text(record.description),
+      source: text(record.source) || undefined,
+      provenance: origin ? createProvenance(origin, {
+        recordId: text(record.id),
+        geoPrecision: record.geoPrecision,
+        confidence: record.confidence,
+        rawUrl: record.rawUrl,
+      }) : undefined,
+    },
+  };
+};
+
+/**
+ * Runs every event through `validateEvent`, dropping duplicates and
+ * assigning ids where they are missing.
+ */
+export const validateEvents = (raw: unknown[], origin?: EventOrigin): { events: ConflictEvent[]; rejected: RejectedRecord[] } => {
+  const events: ConflictEvent[] = [];
+  const rejected: RejectedRecord[] = [];
+  const seen = new Set<string>();
+
+  raw.forEach((item, index) => {
+    const check = validateEvent(item, origin);
+    const rawId = item && typeof item === 'object' ? text((item as Record<string, unknown>).id) : '';
+
+    if ('reason' in check) {
+      rejected.push({ index, id: rawId || undefined, reason: check.reason });
+      return;
+    }
+
+    const event = check.event;
+    if (!event.id) event.id = `evt-${index + 1}`;
+    if (seen.has(event.id)) {
+      rejected.push({ index, id: event.id, reason: 'Duplicate id' });
+      return;
+    }
+
+    seen.add(event.id);
+    events.push(event);
+  });
+
+  return { events, rejected };
+};
+
+/**
+ * Validates a parsed model response as an AnalysisResult. Never throws on
+ * bad events; they are listed in `rejected` instead.
+ */
+export const validateAnalysisResult = (raw: unknown, origin?: EventOrigin): AnalysisResult => {
+  if (!raw || typeof raw !== 'object') throw new Error("Analysis response is not an object");
+  const record = raw as Record<string, unknown>;
+
+  const { events, rejected } = validateEvents(Array.isArray(record.events) ? record.events : [], origin);
+  const trend = TRENDS.find(t => t === text(record.trend).toLowerCase()) ?? 'stable';
+  const keyActors = Array.isArray(record.keyActors)
+    ? [...new Set(record.keyActors.map(text).filter(Boolean))]
+    : [];
+
+  return {
+    summary: text(record.summary),
+    keyActors,
+    trend,
+    events,
+    rejected,
+  };
+};
@@ -0,0 +1,62 @@
+import { ConflictEvent, ConflictType, ViewFilter } from "../types";
+
+export const EMPTY_VIEW_FILTER: ViewFilter = {
+  hiddenTypes: [],
+  actor: '',
+};
+
+// One control in the filter panel; each is checked on its own so its effect can be counted
+export type ViewFilterCriterion = 'types' | 'dates' | 'fatalities' | 'country' | 'actor' | 'subType';
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+const CRITERIA: Record<ViewFilterCriterion, (event: ConflictEvent, filter: ViewFilter) => boolean> = {
+  types: (e, f) => !f.hiddenTypes.includes(e.type),
+  // ISO dates compare correctly as strings
+  dates: (e, f) => (!f.startDate || e.date >= f.startDate) && (!f.endDate || e.date <= f.endDate),
+  fatalities: (e, f) =>
+    (f.minFatalities === undefined || e.fatalities >= f.minFatalities) &&
+    (f.maxFatalities === undefined || e.fatalities <= f.maxFatalities),
+  country: (e, f) => !f.country || normalize(e.country) === normalize(f.country),
+  actor: (e, f) => !normalize(f.actor) || [e.actor1, e.actor2].some(a => normalize(a).includes(normalize(f.actor))),
+  subType: (e, f) => !f.subType || normalize(e.subType) === normalize(f.subType),
+};
+
+const CRITERION_NAMES = Object.keys(CRITERIA) as ViewFilterCriterion[];
+
+export const matchesViewFilter = (event: ConflictEvent, filter: ViewFilter): boolean =>
+  CRITERION_NAMES.every(name => CRITERIA[name](event, filter));
+
+export const applyViewFilter = (events: ConflictEvent[], filter: ViewFilter): ConflictEvent[] =>
+  events.filter(e => matchesViewFilter(e, filter));
+
+export const isViewFilterActive = (filter: ViewFilter) =>
+  filter.hiddenTypes.length > 0 || Boolean(filter.startDate || filter.endDate || filter.country || filter.subType || filter.actor.trim()) ||
+  filter.minFatalities !== undefined || filter.maxFatalities !== undefined;
+
+/**
+ * How many events each control rejects, counted independently, so an event
+ * outside both the date range and the country shows up under both.
+ */
+export const countHiddenByCriterion = (events: ConflictEvent[], filter: ViewFilter): Record<ViewFilterCriterion, number> => {
+  const counts = Object.fromEntries(CRITERION_NAMES.map(name => [name, 0])) as Record<ViewFilterCriterion, number>;
+  events.forEach(e => CRITERION_NAMES.forEach(name => {
+    if (!CRITERIA[name](e, filter)) counts[name]++;
+  }));
+  return counts;
+};
+
+/**
+ * Filter showing a single type, or every type when `type` is null. Other
+ * controls are left as they are.
+ */
+export const showOnlyType = (filter: ViewFilter, type: ConflictType | null): ViewFilter => ({
+  ...filter,
+  hiddenTypes: type ? Object.values(ConflictType).filter(t => t !== type) : [],
+});
+
+// The one type left visible, if the type toggles narrow down to exactly one
+export const soleVisibleType = (filter: ViewFilter): ConflictType | null => {
+  const visible = Object.values(ConflictType).filter(t => !filter.hiddenTypes.includes(t));
+  return visible.length === 1 ? visible[0] : null;
+};
@@ -0,0 +1,132 @@
+import { ConflictEvent, WatchAlert, WatchArea, WatchRule } from "../types";
+import { containsPoint } from "./boundaries";
+import { eventDayRange, fromDayNumber, toDayNumber } from "./dates";
+
+const RULES_KEY = 'geoconflict.watchRules';
+const ALERTS_KEY = 'geoconflict.watchAlerts';
+const MAX_ALERTS = 100;
+const MAX_ALERT_EVENTS = 20;
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const loadWatchRules = (): WatchRule[] => readJson(RULES_KEY, []);
+export const saveWatchRules = (rules: WatchRule[]) => localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+
+export const loadWatchAlerts = (): WatchAlert[] => readJson(ALERTS_KEY, []);
+export const saveWatchAlerts = (alerts: WatchAlert[]) =>
+  localStorage.setItem(ALERTS_KEY, JSON.stringify(alerts.slice(0, MAX_ALERTS)));
+
+const EARTH_RADIUS_KM = 6371;
+
+export const distanceKm = ([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export const inWatchArea = (event: ConflictEvent, area: WatchArea): boolean => {
+  switch (area.kind) {
+    case 'polygon':
+      return containsPoint({ type: 'Polygon', coordinates: [area.ring] }, event.longitude, event.latitude);
+    case 'radius':
+      return distanceKm(area.center, [event.latitude, event.longitude]) <= area.radiusKm;
+    case 'country':
+      return event.country.trim().toLowerCase() === area.country.trim().toLowerCase();
+    case 'actor': {
+      const needle = area.actor.trim().toLowerCase();
+      return [event.actor1, event.actor2].some(a => a?.toLowerCase().includes(needle));
+    }
+  }
+};
+
+export const describeArea = (area: WatchArea): string => {
+  switch (area.kind) {
+    case 'polygon': return `Drawn area (${area.ring.length - 1} points)`;
+    case 'radius': return `${area.radiusKm.toFixed(0)} km around ${area.center.map(c => c.toFixed(2)).join(', ')}`;
+    case 'country': return area.country;
+    case 'actor': return `Actor: ${area.actor}`;
+  }
+};
+
+export const describeRule = (rule: WatchRule): string => {
+  const types = rule.types.length ? rule.types.join('/') : '';
+  if (rule.metric === 'events' && rule.threshold === 0) {
+    return `Any ${types || 'event'} in ${rule.windowDays}d`;
+  }
+  return `> ${rule.threshold} ${types ? `${types} ` : ''}${rule.metric} in ${rule.windowDays}d`;
+};
+
+// Short stable hash so the same matched set doesn't alert twice
+const signature = (ruleId: string, events: ConflictEvent[]) => {
+  const text = ruleId + events.map(e => `${e.date}|${e.type}|${e.location}|${e.fatalities}`).sort().join(';');
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return `${ruleId}-${(hash >>> 0).toString(36)}`;
+};
+
+/**
+ * Checks one rule against a set of events. The window ends at the most
+ * recent event in the data rather than today, since sources lag by days
+ * or weeks and generated data may not reach the current date.
+ */
+export const evaluateRule = (rule: WatchRule, events: ConflictEvent[]): WatchAlert | null => {
+  const range = eventDayRange(events.map(e => e.date));
+  if (!range) return null;
+  const { end } = range;
+  const start = end - rule.windowDays + 1;
+
+  const matched = events.filter(e => {
+    const day = toDayNumber(e.date);
+    return day >= start && day <= end
+      && (rule.types.length === 0 || rule.types.includes(e.type))
+      && inWatchArea(e, rule.area);
+  });
+
+  const value = rule.metric === 'events' ? matched.length : matched.reduce((acc, e) => acc + e.fatalities, 0);
+  if (value <= rule.threshold || matched.length === 0) return null;
+
+  return {
+    id: signature(rule.id, matched),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    message: `${value} ${rule.metric} in ${describeArea(rule.area)} between ${fromDayNumber(start)} and ${fromDayNumber(end)}`,
+    triggeredAt: Date.now(),
+    read: false,
+    events: [...matched]
+      .sort((a, b) => b.fatalities - a.fatalities)
+      .slice(0, MAX_ALERT_EVENTS)
+      .map(({ id, date, type, location, fatalities }) => ({ id, date, type, location, fatalities })),
+  };
+};
+
+/**
+ * Runs every enabled rule and returns only alerts that haven't fired before.
+ */
+export const evaluateRules = (rules: WatchRule[], events: ConflictEvent[], existing: WatchAlert[]): WatchAlert[] => {
+  const seen = new Set(existing.map(a => a.id));
+  return rules
+    .filter(rule => rule.enabled)
+    .map(rule => evaluateRule(rule, events))
+    .filter((alert): alert is WatchAlert => alert !== null && !seen.has(alert.id));
+};
+
+export const requestNotificationPermission = () => {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+};
+
+export const notifyAlert = (alert: WatchAlert) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  new Notification(`Watchlist: ${alert.ruleName}`, { body: alert.message, tag: alert.id });
+};
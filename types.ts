@@ -15,12 +15,34 @@ export interface ConflictEvent {
   actor1: string;
   actor2?: string;
   country: string;
+  admin1?: string;
+  admin2?: string;
   location: string;
   latitude: number;
   longitude: number;
   fatalities: number;
   description: string;
   source?: string;
+  provenance?: EventProvenance; // absent on events saved before provenance was recorded
+}
+
+export type EventOrigin = 'acled' | 'gemini' | 'imported';
+export type GeoPrecision = 'exact' | 'approximate' | 'region' | 'unknown';
+
+// Where an event came from and how far its details can be trusted
+export interface EventProvenance {
+  origin: EventOrigin; // 'gemini' events are synthetic
+  recordId?: string; // id in the originating dataset
+  geoPrecision: GeoPrecision;
+  confidence: number; // 0-1
+  rawUrl?: string;
+}
+
+// An event dropped during validation, with the position it had in the raw response
+export interface RejectedRecord {
+  index: number;
+  id?: string;
+  reason: string;
 }
 
 export interface AnalysisResult {
@@ -28,9 +50,114 @@ export interface AnalysisResult {
   keyActors: string[];
   trend: 'escalating' | 'de-escalating' | 'stable' | 'volatile';
   events: ConflictEvent[];
+  rejected?: RejectedRecord[];
 }
 
+// Structured form of a natural-language query; empty lists mean "any"
+export interface ConflictFilter {
+  countries: string[];
+  adminRegions: string[];
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;   // YYYY-MM-DD, inclusive
+  types: ConflictType[];
+  actors: string[];
+  minFatalities: number;
+}
+
+// Narrows a loaded result on screen without reloading it; unset fields mean "any"
+export interface ViewFilter {
+  hiddenTypes: ConflictType[];
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;   // YYYY-MM-DD, inclusive
+  minFatalities?: number;
+  maxFatalities?: number;
+  country?: string;
+  actor: string; // matched as a substring of either actor
+  subType?: string;
+}
+
+export type DataSourceKind = 'acled' | 'gemini' | 'local';
+
+// An analysis kept in the local history store
+export interface SavedAnalysis {
+  id: string;
+  name: string;
+  query: string;
+  filter: ConflictFilter;
+  result: AnalysisResult;
+  source: DataSourceKind;
+  sourceLabel: string;
+  createdAt: number; // epoch ms
+  pinned: boolean;
+  transcripts?: LiveTranscript[]; // Overwatch sessions attached to this analysis
+}
+
+// Where a watch rule looks; polygon rings are GeoJSON-ordered [lng, lat]
+export type WatchArea =
+  | { kind: 'polygon'; ring: [number, number][] }
+  | { kind: 'radius'; center: [number, number]; radiusKm: number } // center is [lat, lng]
+  | { kind: 'country'; country: string }
+  | { kind: 'actor'; actor: string };
+
+export interface WatchRule {
+  id: string;
+  name: string;
+  area: WatchArea;
+  metric: 'events' | 'fatalities';
+  threshold: number;  // fires when the metric is strictly above this
+  windowDays: number;
+  types: ConflictType[]; // empty means any type
+  enabled: boolean;
+}
+
+export interface WatchAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  triggeredAt: number; // epoch ms
+  read: boolean;
+  events: Pick<ConflictEvent, 'id' | 'date' | 'type' | 'location' | 'fatalities'>[];
+}
+
+export type BoundaryLevel = 'country' | 'admin1';
+
+// A boundary picked on the choropleth, narrowing the sidebar and Analytics
+export interface RegionSelection {
+  level: BoundaryLevel;
+  key: string;
+  name: string;
+  eventIds: string[];
+}
+
+export type ViewTab = 'map' | 'analytics' | 'network' | 'live';
+
+export const VIEW_TABS: ViewTab[] = ['map', 'analytics', 'network', 'live'];
+
 export interface MapViewport {
   center: [number, number];
   zoom: number;
 }
+
+export type TranscriptSpeaker = 'operator' | 'overwatch';
+export type TranscriptVia = 'voice' | 'text'; // spoken or typed
+
+// One uninterrupted stretch of speech, built up from streamed transcription
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  via: TranscriptVia;
+  text: string;
+  startedAt: number; // epoch ms
+  complete: boolean;
+  interrupted: boolean; // Overwatch was cut off by the operator
+  finished?: boolean; // Overwatch ended the reply itself, so a later interruption can't apply to it
+}
+
+export interface LiveTranscript {
+  id: string;
+  startedAt: number; // epoch ms
+  endedAt: number;
+  query: string | null;
+  turns: TranscriptTurn[];
+}
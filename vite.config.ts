@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ACLED_API_KEY': JSON.stringify(env.ACLED_API_KEY),
+        'process.env.ACLED_EMAIL': JSON.stringify(env.ACLED_EMAIL)
       },
       resolve: {
         alias: {